@@ -0,0 +1,423 @@
+/**
+ * Build the workers for an environment, and deploy them to the Cloudflare account of the environment.
+ *
+ * Environments are described in a YAML config file (see deploy.example.yaml): the account to deploy to, and for
+ * each worker to deploy its script name, bindings, and the configuration embedded in its script, e.g. the modules
+ * of the prober, the hosts allowed by the proxy or the origin pools to race.
+ *
+ * `build` replaces the default configuration of each worker with the one of the environment, checks it against
+ * the types of the worker, bundles the worker, and writes the scripts with a manifest listing them to
+ * `<out>/<environment>/`. `deploy` uploads the scripts of the manifest with the Workers scripts API, authenticated
+ * by CF_API_TOKEN, or by CF_AUTH_EMAIL and CF_AUTH_KEY. CF_API_URL overrides the URL of the API, e.g. for a mock.
+ *
+ * Usage: ts-node scripts/build.ts build|deploy <environment> [--config deploy.yaml] [--out dist]
+ */
+
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as ts from 'typescript'
+import {bundle} from './bundle'
+import {parseConfig} from '../src/http_prober'
+import {parseDocument} from '../src/lib/yaml'
+
+/**
+ * Variables holding the configuration of each worker, which are replaced by the `config` of the environment.
+ * The prober takes a config document, which is checked by its parser. The other configs are written as literals,
+ * which are type-checked against the type of the variable.
+ */
+const configVariables: { [worker: string]: { name: string, document: boolean } } = {
+    http_prober: {name: 'builtinConfig', document: true},
+    proxy: {name: 'config', document: false},
+    race: {name: 'config', document: false},
+}
+
+const defaultApiUrl = 'https://api.cloudflare.com/client/v4'
+
+/**
+ * Parse the deploy config file.
+ *
+ * @param {string} text YAML or JSON document
+ * @param {Array<string>} workers names of the workers which can be deployed
+ * @return {DeployConfig}
+ */
+export function parseDeployConfig(text: string, workers: Array<string>): DeployConfig {
+    const doc = parseDocument(text)
+    if (!isMapping(doc) || !isMapping(doc.environments)) {
+        throw new Error('config must have an "environments" mapping')
+    }
+    const environments: { [name: string]: EnvironmentConfig } = {}
+    for (let name of Object.keys(doc.environments)) {
+        try {
+            environments[name] = parseEnvironment(doc.environments[name], workers)
+        } catch (e) {
+            throw new Error(`environment ${name}: ${e.message}`)
+        }
+    }
+    return {environments}
+}
+
+function parseEnvironment(v: any, workers: Array<string>): EnvironmentConfig {
+    checkKeys(v, ['account_id', 'workers'])
+    if (typeof v.account_id !== 'string' || v.account_id === '') {
+        throw new Error('account_id must be a string')
+    }
+    if (!isMapping(v.workers) || Object.keys(v.workers).length === 0) {
+        throw new Error('workers must be a non-empty mapping of workers by name')
+    }
+    for (let worker of Object.keys(v.workers)) {
+        if (!workers.includes(worker)) {
+            throw new Error(`unknown worker ${worker}, expected one of ${workers.join(', ')}`)
+        }
+        const config = v.workers[worker] === null ? {} : v.workers[worker]
+        checkKeys(config, ['script_name', 'vars', 'kv_namespaces', 'config'], `worker ${worker}: `)
+        if (config.script_name !== undefined && !/^[a-z0-9_-]+$/.test(config.script_name)) {
+            throw new Error(`worker ${worker}: script_name must only have lowercase letters, digits, _ and -`)
+        }
+        for (let key of ['vars', 'kv_namespaces']) {
+            const values = config[key]
+            const valid = isMapping(values) && Object.keys(values).every(k => typeof values[k] === 'string')
+            if (values !== undefined && !valid) {
+                throw new Error(`worker ${worker}: ${key} must be a mapping of strings by binding name`)
+            }
+        }
+        if (config.config !== undefined && !configVariables.hasOwnProperty(worker)) {
+            throw new Error(`worker ${worker}: the worker has no config to embed`)
+        }
+        v.workers[worker] = config
+    }
+    return v
+}
+
+function checkKeys(v: any, keys: Array<string>, prefix: string = '') {
+    if (!isMapping(v)) {
+        throw new Error(`${prefix}must be a mapping with ${keys.join(', ')}`)
+    }
+    const unknownKeys = Object.keys(v).filter(key => !keys.includes(key))
+    if (unknownKeys.length > 0) {
+        throw new Error(`${prefix}unknown keys: ${unknownKeys.join(', ')}`)
+    }
+}
+
+function isMapping(v: any): boolean {
+    return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+/**
+ * Build the workers of an environment to `<out>/<environment>/`, with their manifest.
+ *
+ * All workers are checked before anything is written, and an error lists the problems of all of them.
+ *
+ * @param {DeployConfig} config
+ * @param {string} environment
+ * @param {string} out
+ * @param {string} root directory of the repository, with the sources of the workers in src/
+ * @return {Manifest}
+ */
+export function build(config: DeployConfig, environment: string, out: string,
+                      root: string = process.cwd()): Manifest {
+    if (!config.environments.hasOwnProperty(environment)) {
+        const names = Object.keys(config.environments).join(', ')
+        throw new Error(`unknown environment ${environment}, expected one of ${names}`)
+    }
+    const env = config.environments[environment]
+    const workers = Object.keys(env.workers)
+    const entries = workers.map(worker => path.resolve(root, 'src', `${worker}.ts`))
+    const injections: { [file: string]: Injection } = {}
+    const errors: Array<string> = []
+    workers.forEach((worker, i) => {
+        const value = env.workers[worker].config
+        if (value === undefined) {
+            return
+        }
+        const variable = configVariables[worker]
+        if (variable.document) {
+            const [, err] = parseConfig(JSON.stringify(value))
+            if (err !== null) {
+                errors.push(`${worker}: config: ${err.message}`)
+            }
+        }
+        const literal = variable.document ? JSON.stringify(JSON.stringify(value, null, 2)) : toLiteral(value)
+        injections[entries[i]] = {worker, ...injectConfig(fs.readFileSync(entries[i], 'utf8'), variable.name, literal)}
+    })
+    errors.push(...typeCheck(entries, injections, root))
+    if (errors.length > 0) {
+        throw new Error(`invalid config of environment ${environment}:\n${errors.join('\n')}`)
+    }
+
+    const sources: { [file: string]: string } = {}
+    Object.keys(injections).forEach(file => sources[file] = injections[file].source)
+    const dir = path.join(out, environment)
+    makeDirectory(dir)
+    const manifest: Manifest = {
+        environment,
+        account_id: env.account_id,
+        workers: workers.map((worker, i) => {
+            const script = bundle(entries[i], root, sources)
+            const file = `${worker}.js`
+            fs.writeFileSync(path.join(dir, file), script)
+            return {
+                worker,
+                script_name: env.workers[worker].script_name || worker,
+                file,
+                sha256: sha256(script),
+                size: Buffer.byteLength(script),
+                bindings: bindings(env.workers[worker]),
+            }
+        }),
+    }
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n')
+    return manifest
+}
+
+function bindings(config: WorkerConfig): Array<Binding> {
+    const vars = config.vars || {}
+    const namespaces = config.kv_namespaces || {}
+    return [
+        ...Object.keys(vars).map(name => ({type: 'plain_text', name, text: vars[name]} as Binding)),
+        ...Object.keys(namespaces).map(name =>
+            ({type: 'kv_namespace', name, namespace_id: namespaces[name]} as Binding)),
+    ]
+}
+
+/**
+ * TypeScript literal of a config value. As YAML has no RegExp, a mapping with only a `regexp` pattern is a RegExp,
+ * e.g. `{regexp: '^(.+\.)?github\.com$'}` in the `allowed_hosts` of the proxy.
+ *
+ * @param {any} value
+ * @param {string} indent
+ * @return {string}
+ */
+export function toLiteral(value: any, indent: string = ''): string {
+    if (isMapping(value) && Object.keys(value).length === 1 && typeof value.regexp === 'string') {
+        return `new RegExp(${JSON.stringify(value.regexp)})`
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(v => toLiteral(v, indent)).join(', ')}]`
+    }
+    if (isMapping(value)) {
+        const inner = indent + '    '
+        const properties = Object.keys(value)
+            .map(key => `${inner}${JSON.stringify(key)}: ${toLiteral(value[key], inner)},\n`)
+        return `{\n${properties.join('')}${indent}}`
+    }
+    return JSON.stringify(value)
+}
+
+/**
+ * Replace the initializer of a top-level variable of a source.
+ *
+ * @param {string} source
+ * @param {string} variable
+ * @param {string} literal
+ * @return {{source: string, start: number, end: number}} the new source, with the range of the declaration in it
+ */
+export function injectConfig(source: string, variable: string,
+                             literal: string): { source: string, start: number, end: number } {
+    const file = ts.createSourceFile('worker.ts', source, ts.ScriptTarget.ESNext, true)
+    for (let statement of file.statements) {
+        if (!ts.isVariableStatement(statement)) {
+            continue
+        }
+        for (let declaration of statement.declarationList.declarations) {
+            const initializer = declaration.initializer
+            if (ts.isIdentifier(declaration.name) && declaration.name.text === variable && initializer !== undefined) {
+                const start = initializer.getStart(file)
+                return {
+                    source: source.slice(0, start) + literal + source.slice(initializer.end),
+                    start: statement.getStart(file),
+                    end: start + literal.length,
+                }
+            }
+        }
+    }
+    throw new Error(`no top-level variable ${variable} to embed the config in`)
+}
+
+interface Injection {
+    readonly worker: string
+    readonly source: string
+    // range of the declaration of the config in the source
+    readonly start: number
+    readonly end: number
+}
+
+/**
+ * Type-check the workers with the injected configs, with the compiler options of the repository.
+ *
+ * @return {Array<string>} the errors, where the ones in an injected config are reported by worker
+ */
+function typeCheck(entries: Array<string>, injections: { [file: string]: Injection }, root: string): Array<string> {
+    const configFile = ts.readConfigFile(path.join(root, 'tsconfig.json'), ts.sys.readFile)
+    const options = {...ts.parseJsonConfigFileContent(configFile.config, ts.sys, root).options, noEmit: true}
+    const host = ts.createCompilerHost(options)
+    const getSourceFile = host.getSourceFile
+    host.getSourceFile = (fileName, languageVersion, onError) => {
+        const injection = injections[path.resolve(fileName)]
+        return injection === undefined
+            ? getSourceFile(fileName, languageVersion, onError)
+            : ts.createSourceFile(fileName, injection.source, languageVersion)
+    }
+    const program = ts.createProgram(entries, options, host)
+    return ts.getPreEmitDiagnostics(program).map(d => {
+        const message = ts.flattenDiagnosticMessageText(d.messageText, '\n')
+        if (d.file === undefined || d.start === undefined) {
+            return message
+        }
+        const injection = injections[path.resolve(d.file.fileName)]
+        if (injection !== undefined && d.start >= injection.start && d.start < injection.end) {
+            const text = d.file.text
+            const line = text.slice(text.lastIndexOf('\n', d.start) + 1).split('\n')[0].trim()
+            const declaration = text.slice(injection.start).split('\n')[0].trim()
+            return `${injection.worker}: config: ${message}${line === declaration ? '' : ` (at ${line})`}`
+        }
+        const {line} = d.file.getLineAndCharacterOfPosition(d.start)
+        return `${path.relative(root, d.file.fileName)}:${line + 1}: ${message}`
+    })
+}
+
+function makeDirectory(dir: string) {
+    if (!fs.existsSync(dir)) {
+        makeDirectory(path.dirname(dir))
+        fs.mkdirSync(dir)
+    }
+}
+
+function sha256(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex')
+}
+
+/**
+ * Headers to authenticate to the Cloudflare API, with an API token, or with the email and global API key
+ * of the account.
+ *
+ * @param {{[name: string]: string | undefined}} env environment variables
+ * @return {{[name: string]: string}}
+ */
+export function authHeaders(env: { [name: string]: string | undefined }): { [name: string]: string } {
+    if (env.CF_API_TOKEN) {
+        return {'Authorization': `Bearer ${env.CF_API_TOKEN}`}
+    }
+    if (env.CF_AUTH_EMAIL && env.CF_AUTH_KEY) {
+        return {'X-Auth-Email': env.CF_AUTH_EMAIL, 'X-Auth-Key': env.CF_AUTH_KEY}
+    }
+    throw new Error('CF_API_TOKEN, or CF_AUTH_EMAIL and CF_AUTH_KEY must be set to deploy')
+}
+
+/**
+ * Upload the scripts of a built environment, in the order of its manifest, if none of them was changed since the
+ * build. It stops at the first failed upload.
+ *
+ * @param {string} dir directory of the built environment, with its manifest.json
+ * @param {string} apiUrl base URL of the Cloudflare API
+ * @param {{[name: string]: string}} headers headers to authenticate to the API
+ * @param {(message: string) => void} log
+ * @return {Promise<void>}
+ */
+export async function deploy(dir: string, apiUrl: string, headers: { [name: string]: string },
+                             log: (message: string) => void = console.log): Promise<void> {
+    const manifest: Manifest = JSON.parse(fs.readFileSync(path.join(dir, 'manifest.json'), 'utf8'))
+    // all the scripts are checked before uploading any, so that an environment is not left half deployed
+    const scripts = manifest.workers.map(worker => {
+        const script = fs.readFileSync(path.join(dir, worker.file), 'utf8')
+        if (sha256(script) !== worker.sha256) {
+            throw new Error(`${worker.file} does not match the manifest, it was changed after the build`)
+        }
+        return script
+    })
+    for (let [i, worker] of manifest.workers.entries()) {
+        const script = scripts[i]
+        // secrets are not in the config file, so the ones set in the account are kept
+        const metadata = {body_part: 'script', bindings: worker.bindings, keep_bindings: ['secret_text']}
+        const form = new FormData()
+        form.append('metadata', new Blob([JSON.stringify(metadata)], {type: 'application/json'}))
+        form.append('script', new Blob([script], {type: 'application/javascript'}), worker.file)
+        const url = `${apiUrl}/accounts/${manifest.account_id}/workers/scripts/${worker.script_name}`
+        const resp = await fetch(url, {method: 'PUT', headers, body: form})
+        const result = await resp.json().catch(() => null)
+        if (!resp.ok || result === null || result.success !== true) {
+            const errors = result !== null && Array.isArray(result.errors)
+                ? result.errors.map((e: any) => e.message)
+                : []
+            throw new Error(`failed to upload ${worker.script_name}: status ${resp.status} ${errors.join(', ')}`.trim())
+        }
+        log(`Uploaded ${worker.script_name} (${worker.size} bytes) to account ${manifest.account_id}`)
+    }
+}
+
+export interface DeployConfig {
+    readonly environments: { [name: string]: EnvironmentConfig }
+}
+
+export interface EnvironmentConfig {
+    // Cloudflare account to deploy the workers to
+    readonly account_id: string
+    // Workers to deploy by name, which is the name of their source in src/
+    readonly workers: { [worker: string]: WorkerConfig }
+}
+
+export interface WorkerConfig {
+    // Name of the script in the account. Default: the name of the worker
+    readonly script_name?: string
+    // Plain text environment variables by binding name
+    readonly vars?: { [name: string]: string }
+    // IDs of KV namespaces by binding name
+    readonly kv_namespaces?: { [name: string]: string }
+    // Configuration embedded in the script, see @configVariables. Default: the configuration in the source
+    readonly config?: any
+}
+
+export interface Manifest {
+    readonly environment: string
+    readonly account_id: string
+    readonly workers: Array<ManifestWorker>
+}
+
+export interface ManifestWorker {
+    readonly worker: string
+    readonly script_name: string
+    // path of the script, relative to the manifest
+    readonly file: string
+    readonly sha256: string
+    readonly size: number
+    readonly bindings: Array<Binding>
+}
+
+/**
+ * Binding of a script, as in the metadata of the Workers scripts API.
+ */
+export type Binding =
+    { readonly type: 'plain_text', readonly name: string, readonly text: string }
+    | { readonly type: 'kv_namespace', readonly name: string, readonly namespace_id: string }
+
+async function main(args: Array<string>) {
+    const [command, environment] = args
+    const option = (name: string, defaultValue: string) => {
+        const i = args.indexOf(`--${name}`)
+        return i >= 0 && i + 1 < args.length ? args[i + 1] : defaultValue
+    }
+    if (!['build', 'deploy'].includes(command) || environment === undefined || environment.startsWith('--')) {
+        console.error('usage: ts-node scripts/build.ts build|deploy <environment> ' +
+            '[--config deploy.yaml] [--out dist]')
+        process.exit(2)
+    }
+    const out = option('out', 'dist')
+    if (command === 'build') {
+        const workers = fs.readdirSync('src').filter(f => f.endsWith('.ts')).map(f => f.slice(0, -3))
+        const config = parseDeployConfig(fs.readFileSync(option('config', 'deploy.yaml'), 'utf8'), workers)
+        const manifest = build(config, environment, out)
+        for (let worker of manifest.workers) {
+            const file = path.join(out, environment, worker.file)
+            console.log(`Built ${worker.script_name}: ${file} (${worker.size} bytes)`)
+        }
+    } else {
+        await deploy(path.join(out, environment), process.env.CF_API_URL || defaultApiUrl, authHeaders(process.env))
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).catch(e => {
+        console.error(`error: ${e.message}`)
+        process.exit(1)
+    })
+}
@@ -0,0 +1,92 @@
+/**
+ * Bundle a worker with the modules it imports into a single script, as a Cloudflare Worker is one script
+ * which can't import modules.
+ *
+ * Each module is compiled to CommonJS and wrapped in a function, which is called with its exports and
+ * a `require` resolving its imports to the other bundled modules. Only relative imports are supported.
+ *
+ * Usage: ts-node scripts/bundle.ts src/echo.ts dist/echo.js
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as ts from 'typescript'
+
+interface BundledModule {
+    readonly id: string
+    readonly code: string
+    // ids of the modules by import specifier, e.g. {'./lib/worker': 'src/lib/worker'}
+    readonly imports: { [specifier: string]: string }
+}
+
+/**
+ * @param {string} entry path to the TypeScript source of the worker
+ * @param {string} root directory the module ids are relative to
+ * @param {{[p: string]: string}} sources sources to use instead of the files, by absolute path
+ * @return {string} the bundled worker script
+ */
+export function bundle(entry: string, root: string = process.cwd(),
+                       sources: { [file: string]: string } = {}): string {
+    const modules: Array<BundledModule> = []
+    const visit = (file: string): string => {
+        const id = path.relative(root, file).replace(/\\/g, '/').replace(/\.ts$/, '')
+        if (modules.some(m => m.id === id)) {
+            return id
+        }
+        const source = sources.hasOwnProperty(file) ? sources[file] : fs.readFileSync(file, 'utf8')
+        const bundled = {id, code: '', imports: {} as { [specifier: string]: string }}
+        // added before visiting its imports, so that circular imports terminate
+        modules.push(bundled)
+        for (let {fileName} of ts.preProcessFile(source).importedFiles) {
+            if (!fileName.startsWith('.')) {
+                throw new Error(`${file}: only relative imports can be bundled, not ${fileName}`)
+            }
+            bundled.imports[fileName] = visit(resolveImport(file, fileName))
+        }
+        bundled.code = ts.transpileModule(source, {
+            fileName: file,
+            compilerOptions: {module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ESNext},
+        }).outputText
+        return id
+    }
+    const entryId = visit(path.resolve(entry))
+
+    const definitions = modules.map(m => `${JSON.stringify(m.id)}: [function (exports, require) {
+${m.code.trim()}
+}, ${JSON.stringify(m.imports)}]`)
+    return `(function () {
+const modules = {
+${definitions.join(',\n')}
+};
+const cache = {};
+function load(id) {
+    if (!cache.hasOwnProperty(id)) {
+        const [define, imports] = modules[id];
+        cache[id] = {};
+        define(cache[id], specifier => load(imports[specifier]));
+    }
+    return cache[id];
+}
+load(${JSON.stringify(entryId)});
+})();
+`
+}
+
+function resolveImport(from: string, specifier: string): string {
+    const resolved = path.resolve(path.dirname(from), specifier)
+    for (let candidate of [resolved + '.ts', path.join(resolved, 'index.ts')]) {
+        if (fs.existsSync(candidate)) {
+            return candidate
+        }
+    }
+    throw new Error(`${from}: cannot resolve ${specifier}`)
+}
+
+if (require.main === module) {
+    const [entry, output] = process.argv.slice(2)
+    if (entry === undefined || output === undefined) {
+        console.error('usage: ts-node scripts/bundle.ts <worker.ts> <output.js>')
+        process.exit(2)
+    }
+    fs.writeFileSync(output, bundle(entry))
+}
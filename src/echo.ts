@@ -1,39 +1,286 @@
 /**
- * Echo-ing back request/response headers received by worker.
+ * Echo-ing back request/response received by worker.
+ *
+ * `/request` returns the method, URL, query parameters, headers, body and `cf` metadata of the request,
+ * and `/response` the status, redirects, timing and headers of the response of the origin for the request.
+ * A single part of them can be returned with e.g. `/request/headers` or `/response/status`.
+ * The output is plain text, or JSON with `format=json` query parameter.
+ *
+ * It can also be used as a test origin for other workers, with httpbin-like routes to control the response:
+ * `/status/{code}`, `/delay/{ms}`, `/bytes/{n}`, `/redirect/{n}` and `/response-headers?name=value`.
  */
 
+import {byteLength, truncate} from './lib/text'
+import {errorResponse, listen, Router} from './lib/worker'
+
+type Fetcher = (r: Request) => Promise<Response>
+
 /**
  * Cloudflare Worker entrypoint
  */
-if (typeof addEventListener === 'function') {
-    addEventListener('fetch', (e: Event): void => {
-        // work around as strict typescript check doesn't allow e to be of type FetchEvent
-        const fe = e as FetchEvent
-        fe.respondWith(processRequest(fe.request))
-    });
+listen(e => processRequest(e.request))
+
+// Routes by the end of the path, as the worker could be deployed under any path prefix
+const router = new Router<Fetcher>()
+    .all('*/request', async r => render(await requestInfo(r), r))
+    .all('*/request/:part', async (r, params) => renderPart(await requestInfo(r), params.part, r))
+    .all('*/response', async (r, params, fetcher) => render(await responseInfo(r, fetcher), r))
+    .all('*/response/:part', async (r, params, fetcher) => renderPart(await responseInfo(r, fetcher), params.part, r))
+    .all('*/status/:code', (r, params) => withNumber(params.code, statusResponse))
+    .all('*/delay/:ms', (r, params) => withNumber(params.ms, ms => delayResponse(r, ms)))
+    .all('*/bytes/:n', (r, params) => withNumber(params.n, bytesResponse))
+    .all('*/redirect/:n', (r, params) => withNumber(params.n, n => redirectResponse(r, n)))
+    .all('*/response-headers', responseHeadersResponse)
+
+/**
+ * @param {Request} r
+ * @param {Fetcher} fetcher
+ * @return {Promise<Response>}
+ */
+export function processRequest(r: Request, fetcher: Fetcher = fetch): Promise<Response> {
+    return router.handle(r, fetcher)
 }
 
-async function processRequest(r: Request): Promise<Response> {
-    if (r.url.endsWith('/request/headers')) {
-        return echoHeaders(r.headers)
-    } else if (r.url.endsWith('/response/headers')) {
-        const resp = await fetch(r)
-        return echoHeaders(resp.headers)
-    } else {
-        return new Response('Bad Request', {status: 400, statusText: 'Bad Request'})
+function renderPart(info: { [part: string]: any }, part: string, r: Request): Response {
+    if (!info.hasOwnProperty(part)) {
+        return errorResponse(`unknown part: ${part}`)
+    }
+    return render(info[part], r)
+}
+
+function withNumber(param: string, respond: (n: number) => Promise<Response> | Response): Promise<Response> | Response {
+    if (!/^\d+$/.test(param)) {
+        return errorResponse(`not a number: ${param}`)
+    }
+    return respond(Number(param))
+}
+
+function render(value: any, r: Request, init: ResponseInit = {}): Response {
+    const headers = new Headers(init.headers)
+    if (new URL(r.url).searchParams.get('format') === 'json') {
+        headers.set('Content-Type', 'application/json')
+        return new Response(JSON.stringify(value, null, 2) + '\n', {...init, headers})
+    }
+    return new Response(renderText(value), {...init, headers})
+}
+
+/**
+ * @param {number} code
+ * @return {Response} empty response with the status code
+ */
+export function statusResponse(code: number): Response {
+    if (code < 200 || code > 599) {
+        return errorResponse(`invalid status code: ${code}`)
+    }
+    // these responses can't have a body
+    const body = [204, 205, 304].includes(code) ? null : `${code}\n`
+    return new Response(body, {status: code})
+}
+
+// Maximum delay of /delay route, in milliseconds
+const maxDelay = 30 * 1000
+
+/**
+ * @param {Request} r
+ * @param {number} ms
+ * @return {Promise<Response>} the request info, after a delay of `ms` milliseconds
+ */
+export async function delayResponse(r: Request, ms: number): Promise<Response> {
+    if (ms > maxDelay) {
+        return errorResponse(`delay is too long, at most ${maxDelay}ms is allowed`)
+    }
+    await new Promise(resolve => setTimeout(resolve, ms))
+    return render(await requestInfo(r), r)
+}
+
+// Maximum size of /bytes route
+const maxBytes = 10 * 1024 * 1024
+
+/**
+ * @param {number} n
+ * @return {Response} response with `n` random bytes as body
+ */
+export function bytesResponse(n: number): Response {
+    if (n > maxBytes) {
+        return errorResponse(`too many bytes, at most ${maxBytes} are allowed`)
+    }
+    const bytes = new Uint8Array(n)
+    // getRandomValues() fills at most 64KiB at once
+    for (let i = 0; i < n; i += 65536) {
+        crypto.getRandomValues(bytes.subarray(i, i + 65536))
+    }
+    return new Response(bytes, {headers: {'Content-Type': 'application/octet-stream'}})
+}
+
+// Maximum number of redirects of /redirect route
+const maxRedirectRoute = 100
+
+/**
+ * @param {Request} r
+ * @param {number} n
+ * @return {Response} redirect to `/redirect/{n - 1}`, or to `/request` for the last one
+ */
+export function redirectResponse(r: Request, n: number): Response {
+    if (n < 1 || n > maxRedirectRoute) {
+        return errorResponse(`number of redirects must be between 1 and ${maxRedirectRoute}`)
     }
+    const url = new URL(r.url)
+    const next = n > 1 ? `/redirect/${n - 1}` : '/request'
+    url.pathname = url.pathname.replace(/\/redirect\/\d+$/, next)
+    return new Response(null, {status: 302, headers: {'Location': url.pathname + url.search}})
 }
 
-function echoHeaders(h: Headers): Response {
-    let output = ''
-    for (let [name, value] of h.entries()) {
-        output += `${name}: ${value}\n`
+/**
+ * @param {Request} r
+ * @return {Response} response with headers of the query parameters, which are echoed in the body as well,
+ * or a 400 error response if a parameter is not a valid header
+ */
+export function responseHeadersResponse(r: Request): Response {
+    const url = new URL(r.url)
+    const headers = new Headers()
+    const query: { [name: string]: string } = {}
+    for (let [name, value] of url.searchParams) {
+        if (name !== 'format') {
+            try {
+                headers.append(name, value)
+            } catch (e) {
+                return errorResponse(`invalid header: ${JSON.stringify(name)}`)
+            }
+            query[name] = headers.get(name)!
+        }
     }
-    return new Response(output)
+    return render(query, r, {headers})
+}
+
+// Bodies longer than this are truncated
+const maxBodySize = 64 * 1024
+
+export interface RequestInfo {
+    readonly method: string
+    readonly url: string
+    readonly query: { [name: string]: string | Array<string> }
+    readonly headers: { [name: string]: string }
+    readonly body: string
+    // size in bytes of the whole body
+    readonly body_size: number
+    readonly body_truncated: boolean
+    // metadata of the request added by Cloudflare, e.g. colo and country
+    readonly cf: object | null
+}
+
+/**
+ * @param {Request} r
+ * @return {Promise<RequestInfo>}
+ */
+export async function requestInfo(r: Request): Promise<RequestInfo> {
+    const url = new URL(r.url)
+    const query: { [name: string]: string | Array<string> } = {}
+    for (let name of url.searchParams.keys()) {
+        const values = url.searchParams.getAll(name)
+        query[name] = values.length === 1 ? values[0] : values
+    }
+    const body = r.method === 'GET' || r.method === 'HEAD' ? '' : await r.text()
+    const bodySize = byteLength(body)
+    return {
+        method: r.method,
+        url: r.url,
+        query,
+        headers: headersObject(r.headers),
+        body: bodySize > maxBodySize ? truncate(body, maxBodySize) : body,
+        body_size: bodySize,
+        body_truncated: bodySize > maxBodySize,
+        // cf is only available in Cloudflare Workers
+        cf: r.cf || null,
+    }
+}
+
+export interface ResponseInfo {
+    readonly status: number
+    readonly status_text: string
+    // URL of the final response, after redirects
+    readonly url: string
+    readonly redirected: boolean
+    readonly redirects: Array<RedirectInfo>
+    // milliseconds until the final response headers are received
+    readonly duration_ms: number
+    readonly headers: { [name: string]: string }
 }
 
-interface FetchEvent extends Event {
-    request: Request;
+export interface RedirectInfo {
+    readonly status: number
+    readonly url: string
+    readonly location: string
+    readonly duration_ms: number
+}
+
+// Maximum number of redirects to follow
+const maxRedirects = 10
+
+/**
+ * Fetch the request from the origin, following redirects, and describe the response.
+ *
+ * @param {Request} r
+ * @param {Fetcher} fetcher
+ * @return {Promise<ResponseInfo>}
+ */
+export async function responseInfo(r: Request, fetcher: Fetcher): Promise<ResponseInfo> {
+    const start = Date.now()
+    const redirects: Array<RedirectInfo> = []
+    let req = new Request(r, {redirect: 'manual'})
+    while (true) {
+        const hopStart = Date.now()
+        const resp = await fetcher(req)
+        const location = resp.headers.get('location')
+        if (resp.status < 300 || resp.status >= 400 || location === null || redirects.length >= maxRedirects) {
+            return {
+                status: resp.status,
+                status_text: resp.statusText,
+                url: req.url,
+                redirected: redirects.length > 0,
+                redirects,
+                duration_ms: Date.now() - start,
+                headers: headersObject(resp.headers),
+            }
+        }
+        const next = new URL(location, req.url).toString()
+        redirects.push({status: resp.status, url: req.url, location: next, duration_ms: Date.now() - hopStart})
+        req = new Request(next, {headers: req.headers, redirect: 'manual'})
+    }
+}
+
+/**
+ * Render a value as text: one `name: value` line for each (nested) property of an object,
+ * or the value itself.
+ *
+ * @param value
+ * @return {string}
+ */
+export function renderText(value: any): string {
+    if (value === null || typeof value !== 'object') {
+        return `${value}\n`
+    }
+    const lines: Array<string> = []
+    flatten(value, '', lines)
+    return lines.map(line => line + '\n').join('')
+}
+
+function flatten(value: any, name: string, lines: Array<string>) {
+    if (Array.isArray(value) && value.every(v => v === null || typeof v !== 'object')) {
+        // e.g. repeated query parameters
+        value.forEach(v => lines.push(`${name}: ${v}`))
+    } else if (value !== null && typeof value === 'object') {
+        for (let key of Object.keys(value)) {
+            flatten(value[key], name === '' ? key : `${name}.${key}`, lines)
+        }
+    } else {
+        lines.push(`${name}: ${value}`)
+    }
+}
 
-    respondWith(r: Promise<Response> | Response): Promise<Response>;
+function headersObject(h: Headers): { [name: string]: string } {
+    const headers: { [name: string]: string } = {}
+    h.forEach((value, name) => {
+        headers[name] = value
+    })
+    return headers
 }
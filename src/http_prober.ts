@@ -2,13 +2,17 @@
  * Blackbox Exporter HTTP Probe using Cloudflare Worker.
  */
 
+import {percentile} from './lib/stats'
+import {cancelTimer, discardBody, errorResponse, listen, Router, startTimer} from './lib/worker'
+import {parseDocument} from './lib/yaml'
+
 /**
- * Sample modules configuration.
+ * Sample modules configuration, used when no configuration source is bound to the worker.
  *
  * This is based on blackbox-exporter's http_probe configuration,
  * see @HttpProbeConfig interface below for supported options.
  */
-const modules: { [name: string]: HttpProbeConfig } = {
+const sampleModules: { [name: string]: HttpProbeConfig } = {
     http_get_2xx: {
         method: 'GET',
     },
@@ -24,20 +28,85 @@ const modules: { [name: string]: HttpProbeConfig } = {
     }
 }
 
+/**
+ * Sample history configuration, used with the sample modules, see @HistoryConfig interface below.
+ */
+const sampleHistory: HistoryConfig = {
+    windows: [{name: '5m', seconds: 300}, {name: '1h', seconds: 3600}, {name: '24h', seconds: 86400}],
+}
+
+/**
+ * Sample access configuration, used with the sample modules, see @AccessConfig interface below.
+ *
+ * Anyone can use the sample modules, so only the rate of requests is limited.
+ */
+const sampleAccess: AccessConfig = {
+    rate_limit: {
+        caller: {requests: 60, period: 60},
+        target: {requests: 60, period: 60},
+    },
+}
+
+/**
+ * Config document embedded in the script for an environment by scripts/build.ts, which is used instead of the
+ * sample configuration when no configuration source is bound to the worker.
+ */
+const builtinConfig: string | null = null
+
+/**
+ * Optional environment bindings to load the modules configuration at runtime, see @loadConfig below.
+ *
+ * PROBER_CONFIG_STORE is a KV namespace holding the config document at key PROBER_CONFIG_KEY (default: 'config'),
+ * otherwise the document is fetched from PROBER_CONFIG_URL. The parsed config is cached for PROBER_CONFIG_TTL
+ * seconds (default: 60).
+ */
+declare var PROBER_CONFIG_STORE: ConfigStore | undefined
+declare var PROBER_CONFIG_KEY: string | undefined
+declare var PROBER_CONFIG_URL: string | undefined
+declare var PROBER_CONFIG_TTL: string | undefined
+
 /**
  * Cloudflare Worker entrypoint
  */
-if (typeof addEventListener === 'function') {
-    addEventListener('fetch', (e: Event): void => {
-        // work around as strict typescript check doesn't allow e to be of type FetchEvent
-        const fe = e as FetchEvent
-        fe.respondWith(processRequest(fe.request))
-    })
+listen(e => processRequest(e.request, p => e.waitUntil(p)))
+
+async function processRequest(r: Request, waitUntil: (p: Promise<any>) => void): Promise<Response> {
+    let config: ProberConfig
+    try {
+        config = await loadConfig()
+    } catch (e) {
+        return errorResponse(e, 500)
+    }
+    const [caller, authErr] = await authenticate(r, config.access, globalEnv())
+    if (caller === null) {
+        // failed attempts are limited by client, so that tokens and signatures can't be guessed at will
+        return checkRateLimit(config, 'caller', [clientAddress(r)]) || unauthorizedResponse(authErr!)
+    }
+    const limited = checkRateLimit(config, 'caller', [caller])
+    if (limited !== null) {
+        return limited
+    }
+    return router.handle(r, {config, waitUntil})
+}
+
+/**
+ * Context of the routes: the loaded config, and waitUntil() of the fetch event to record results in background.
+ */
+interface ProberContext {
+    readonly config: ProberConfig
+    readonly waitUntil: (p: Promise<any>) => void
 }
 
-function processRequest(r: Request): Response | Promise<Response> {
-    if (r.method !== 'GET') {
-        return errorResponse('sorry, this only accept GET method')
+const router = new Router<ProberContext>()
+    .add(['GET', 'POST'], '*/config', (r, params, {config}) => configResponse(config))
+    .get('*/summary', (r, params, {config}) => summaryResponse(r, config, resultStore))
+    .add(['GET', 'POST'], '*', (r, params, context) => processProbe(r, context))
+
+async function processProbe(r: Request, context: ProberContext): Promise<Response> {
+    const config = context.config
+    const url = new URL(r.url)
+    if (r.method === 'POST' || url.searchParams.getAll('target').length > 1) {
+        return processBatch(r, context)
     }
 
     const [params, err] = parseParams(r)
@@ -45,200 +114,2285 @@ function processRequest(r: Request): Response | Promise<Response> {
         // err must be non-null if params is null
         return errorResponse(err!)
     }
-    if (!modules.hasOwnProperty(params.module)) {
+    if (!config.modules.hasOwnProperty(params.module)) {
         return errorResponse(`unknown module: ${params.module}`)
     }
-
-    const module = modules[params.module]
-    return doProbe(module, params.target)
+    const limited = checkRateLimit(config, 'target', [targetHost(params.target)])
+    if (limited !== null) {
+        return limited
+    }
+
+    const module = config.modules[params.module]
+    const log = new ProbeLog()
+    log.add(`Beginning probe, module=${params.module} target=${params.target}`)
+    const timeout = probeTimeout(module, r.headers.get('x-prometheus-scrape-timeout-seconds'))
+    const [result, probeErr] = await runModule(module, params.target, log, timeout)
+    if (params.debug) {
+        return debugResponse(log, result, module)
+    }
+    if (result === null) {
+        return errorResponse(probeErr!)
+    }
+    recordResult(context, params.module, params.target, result)
+    return buildResponse(result, negotiateFormat(r.headers.get('accept')))
+}
+
+/**
+ * Probe several targets concurrently and return all results in one response, labelled by module and target.
+ *
+ * The targets are either given as multiple 'target' params for the 'module' param of a GET request, or as a JSON
+ * list of {"module": ..., "target": ...} in the body of a POST request. Failures of a target, including targets
+ * that are not allowed, are reported as failed probes for that target only.
+ *
+ * @param {Request} r
+ * @param {ProberContext} context
+ * @return {Promise<Response>}
+ */
+async function processBatch(r: Request, context: ProberContext): Promise<Response> {
+    const config = context.config
+    const [items, err] = await parseBatchParams(r)
+    if (items === null) {
+        return errorResponse(err!)
+    }
+    if (items.length > maxBatchSize) {
+        return errorResponse(`too many targets in batch: ${items.length}, at most ${maxBatchSize} are allowed`)
+    }
+    const unknownModule = items.find(item => !config.modules.hasOwnProperty(item.module))
+    if (unknownModule !== undefined) {
+        return errorResponse(`unknown module: ${unknownModule.module}`)
+    }
+    const limited = checkRateLimit(config, 'target', items.map(item => targetHost(item.target)))
+    if (limited !== null) {
+        return limited
+    }
+
+    const scrapeTimeout = r.headers.get('x-prometheus-scrape-timeout-seconds')
+    const results = await mapConcurrently(items, batchConcurrency, async item => {
+        const module = config.modules[item.module]
+        const [result] = await runModule(module, item.target, new ProbeLog(), probeTimeout(module, scrapeTimeout))
+        if (result === null) {
+            return {probe_success: false, probe_failed_due_to: ['invalid_target']} as ProbeResult
+        }
+        recordResult(context, item.module, item.target, result)
+        return result
+    })
+    const metrics = results.map((result, i) => labelMetrics(resultMetrics(result), {
+        module: items[i].module,
+        target: items[i].target,
+    }))
+    return metricsResponse(mergeMetrics(metrics), negotiateFormat(r.headers.get('accept')))
+}
+
+// Maximum number of targets in a batch, to stay within the subrequests limit of a worker.
+const maxBatchSize = 50
+
+// Number of targets probed at the same time in a batch, which is the limit of simultaneous open connections
+// of a worker. Each probe still uses its own timeout, so a large batch can take longer than the scrape timeout.
+const batchConcurrency = 6
+
+/**
+ * Call the async function for all items with at most `limit` calls in progress at the same time.
+ *
+ * @param {Array<T>} items
+ * @param {number} limit
+ * @param {(item: T) => Promise<R>} fn
+ * @return {Promise<Array<R>>} results in the same order as items
+ */
+export async function mapConcurrently<T, R>(items: Array<T>, limit: number,
+                                            fn: (item: T) => Promise<R>): Promise<Array<R>> {
+    const results: Array<R> = new Array(items.length)
+    let next = 0
+    const run = async () => {
+        while (next < items.length) {
+            const i = next++
+            results[i] = await fn(items[i])
+        }
+    }
+    const runners = []
+    for (let i = 0; i < Math.min(limit, items.length); i++) {
+        runners.push(run())
+    }
+    await Promise.all(runners)
+    return results
+}
+
+//
+// Access control
+//
+
+/**
+ * Authenticate the caller of the prober with the callers of the access config, by a bearer token in the
+ * Authorization header, or by a signed query (see @verifySignedQuery). Without callers in the config, anyone is
+ * allowed and is identified by their IP address.
+ *
+ * @param {Request} r
+ * @param {AccessConfig | undefined} access
+ * @param {Env} env environment bindings to resolve secrets from
+ * @return {Promise<[string , null] | [null , Error]>} the name of the caller, or an error if it is not allowed
+ */
+export async function authenticate(r: Request, access: AccessConfig | undefined,
+                                   env: Env): Promise<[string, null] | [null, Error]> {
+    if (access === undefined || access.callers === undefined) {
+        return [clientAddress(r), null]
+    }
+    const callers = access.callers
+    const url = new URL(r.url)
+    if (url.searchParams.has('signature')) {
+        return verifySignedQuery(r, url, callers, env)
+    }
+    const match = /^Bearer\s+(\S+)$/i.exec(r.headers.get('authorization') || '')
+    if (match === null) {
+        return [null, new Error('a bearer token or a signed query is required')]
+    }
+    for (let name of Object.keys(callers)) {
+        const caller = callers[name]
+        if (caller.token === undefined && caller.token_env === undefined) {
+            continue
+        }
+        const token = callerSecret(name, caller.token, caller.token_env, env)
+        if (token !== null && timingSafeEqual(token, match[1])) {
+            return [name, null]
+        }
+    }
+    return [null, new Error('invalid bearer token')]
+}
+
+function clientAddress(r: Request): string {
+    return r.headers.get('cf-connecting-ip') || 'anonymous'
+}
+
+/**
+ * Verify a signed query, which has `caller`, `expires` (in seconds since epoch) and `signature` params. The
+ * signature is the hex encoded HMAC-SHA256, with the signing key of the caller, of the path and the query string
+ * of the URL without the `signature` param, e.g. `/worker/http_prober?module=m&target=...&caller=c&expires=...`.
+ *
+ * Only GET requests can be signed, as the body of a request is not covered by the signature.
+ */
+async function verifySignedQuery(r: Request, url: URL, callers: { [name: string]: CallerConfig },
+                                 env: Env): Promise<[string, null] | [null, Error]> {
+    if (r.method !== 'GET' && r.method !== 'HEAD') {
+        return [null, new Error(`signed queries are not allowed for ${r.method} requests`)]
+    }
+    const name = url.searchParams.get('caller') || ''
+    const caller = callers.hasOwnProperty(name) ? callers[name] : undefined
+    if (caller === undefined || (caller.signing_key === undefined && caller.signing_key_env === undefined)) {
+        return [null, new Error(`unknown caller of signed query: ${name}`)]
+    }
+    if (!(parseInt(url.searchParams.get('expires') || '') * 1000 > Date.now())) {
+        return [null, new Error('signed query is expired')]
+    }
+    const key = callerSecret(name, caller.signing_key, caller.signing_key_env, env)
+    const signature = url.searchParams.get('signature')!.toLowerCase()
+    if (key === null || !timingSafeEqual(await hmacSha256(key, signedMessage(url)), signature)) {
+        return [null, new Error('invalid signature')]
+    }
+    return [name, null]
+}
+
+/**
+ * The message signed by a signed query: the path and the query string without the `signature` param, as they
+ * are encoded in the URL.
+ *
+ * @param {URL} url
+ * @return {string}
+ */
+export function signedMessage(url: URL): string {
+    const query = url.search.slice(1).split('&').filter(param => !param.startsWith('signature='))
+    return `${url.pathname}?${query.join('&')}`
+}
+
+/**
+ * Resolve a secret of a caller. A secret which can't be resolved is logged, and the caller can't be
+ * authenticated with it, instead of denying all callers.
+ */
+function callerSecret(name: string, value: string | undefined, envName: string | undefined, env: Env): string | null {
+    const [secret, err] = resolveSecret(value || '', envName, env)
+    if (err !== null) {
+        console.error(`Failed to resolve secret of caller ${name}: ${err.message}`)
+    }
+    return secret
+}
+
+async function hmacSha256(key: string, message: string): Promise<string> {
+    const encoder = new TextEncoder()
+    const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), {name: 'HMAC', hash: 'SHA-256'},
+        false, ['sign'])
+    const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message))
+    return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Compare strings in a time which doesn't depend on how much of them are equal, to not leak secrets.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+    let diff = a.length ^ b.length
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i % Math.max(b.length, 1))
+    }
+    return diff === 0
+}
+
+function unauthorizedResponse(err: Error): Response {
+    const resp = errorResponse(err, 401)
+    resp.headers.set('WWW-Authenticate', 'Bearer realm="http_prober"')
+    return resp
+}
+
+/**
+ * Take a request for each of the keys from the rate limiter of the scope, if the access config limits it.
+ *
+ * @param {ProberConfig} config
+ * @param {RateLimitScope} scope
+ * @param {Array<string>} keys the caller, or the hosts of the probed targets
+ * @return {Response | null} a 429 error response if the rate limit is exceeded, or null
+ */
+function checkRateLimit(config: ProberConfig, scope: RateLimitScope, keys: Array<string>): Response | null {
+    const limits = config.access === undefined ? undefined : config.access.rate_limit
+    const limit = limits === undefined ? undefined : limits[scope]
+    if (limit === undefined) {
+        return null
+    }
+    const wait = rateLimiter(scope, limit).take(keys)
+    if (wait === 0) {
+        return null
+    }
+    const resp = errorResponse(`rate limit exceeded: at most ${limit.requests} requests per ${limit.period}s ` +
+        `by ${scope}`, 429)
+    resp.headers.set('Retry-After', String(Math.ceil(wait)))
+    return resp
+}
+
+/**
+ * Targets are rate limited by host, so that the limit can't be avoided by changing the path or query.
+ */
+function targetHost(target: string): string {
+    try {
+        return new URL(target).host
+    } catch (e) {
+        return target
+    }
+}
+
+// Rate limiters by scope and limit, which are kept when the config is reloaded with the same limit
+const rateLimiters = new Map<string, RateLimiter>()
+
+function rateLimiter(scope: RateLimitScope, limit: RateLimit): RateLimiter {
+    const key = `${scope}:${limit.requests}/${limit.period}`
+    let limiter = rateLimiters.get(key)
+    if (limiter === undefined) {
+        limiter = new RateLimiter(limit)
+        rateLimiters.set(key, limiter)
+    }
+    return limiter
+}
+
+/**
+ * Token bucket rate limiter by key, in memory of the worker instance, so the limit applies to each instance.
+ *
+ * A key can take up to `limit.requests` requests at once, then it is refilled at `limit.requests` requests per
+ * `limit.period` seconds. The buckets of at most `maxKeys` recently used keys are kept.
+ */
+export class RateLimiter {
+    // ordered by last use, to evict the least recently used bucket first
+    private readonly buckets = new Map<string, TokenBucket>()
+
+    constructor(private readonly limit: RateLimit,
+                private readonly maxKeys: number = 10000,
+                private readonly now: () => number = Date.now) {
+    }
+
+    /**
+     * Take a request for each of the keys, only if none of them exceeds the limit. A key given several times
+     * takes several requests.
+     *
+     * @param {Array<string>} keys
+     * @return {number} 0 if the requests are taken, otherwise the seconds to wait before they can be
+     */
+    take(keys: Array<string>): number {
+        const counts = new Map<string, number>()
+        keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1))
+        const now = this.now()
+        const rate = this.limit.requests / this.limit.period
+        const refilled = new Map<string, TokenBucket>()
+        let wait = 0
+        for (let [key, count] of counts) {
+            const bucket = this.buckets.get(key)
+            const tokens = bucket === undefined
+                ? this.limit.requests
+                : Math.min(this.limit.requests, bucket.tokens + (now - bucket.updated) / 1000 * rate)
+            refilled.set(key, {tokens, updated: now})
+            if (count > this.limit.requests) {
+                // can never be taken at once
+                wait = Math.max(wait, this.limit.period)
+            } else if (tokens < count) {
+                wait = Math.max(wait, (count - tokens) / rate)
+            }
+        }
+        for (let [key, bucket] of refilled) {
+            this.buckets.delete(key)
+            this.buckets.set(key, wait > 0 ? bucket : {tokens: bucket.tokens - counts.get(key)!, updated: now})
+        }
+        while (this.buckets.size > this.maxKeys) {
+            this.buckets.delete(this.buckets.keys().next().value)
+        }
+        return wait
+    }
+}
+
+interface TokenBucket {
+    readonly tokens: number
+    // in milliseconds since epoch
+    readonly updated: number
+}
+
+//
+// Probe history
+//
+
+/**
+ * Record the result of a probe in the result store in background, if history is enabled by the config.
+ */
+function recordResult(context: ProberContext, module: string, target: string, result: ProbeResult) {
+    if (context.config.history === undefined) {
+        return
+    }
+    const record: ProbeRecord = {
+        time: Date.now(),
+        success: result.probe_success,
+        duration: result.probe_duration_seconds || 0,
+        failed_due_to: result.probe_failed_due_to || [],
+    }
+    context.waitUntil(resultStore.add(module, target, record)
+        .catch(e => console.error(`Failed to record probe result: ${e}`)))
+}
+
+/**
+ * Summary of the recorded results of each module and target over the windows of the history config, in JSON
+ * with `format=json` query param, otherwise as metrics. The `module` and `target` query params filter the
+ * summarized results.
+ *
+ * @param {Request} r
+ * @param {ProberConfig} config
+ * @param {ResultStore} store
+ * @return {Promise<Response>}
+ */
+async function summaryResponse(r: Request, config: ProberConfig, store: ResultStore): Promise<Response> {
+    if (config.history === undefined) {
+        return errorResponse('history is not enabled in the config', 404)
+    }
+    const url = new URL(r.url)
+    const module = url.searchParams.get('module')
+    const target = url.searchParams.get('target')
+    const windows = config.history.windows
+    const now = Date.now()
+    const series = (await store.query(now - Math.max(...windows.map(w => w.seconds)) * 1000))
+        .filter(s => (module === null || s.module === module) && (target === null || s.target === target))
+    const summaries = summarize(series, windows, now)
+    if (url.searchParams.get('format') === 'json') {
+        return new Response(JSON.stringify({windows: windows.map(w => w.name), targets: summaries}, null, 2) + '\n', {
+            headers: {'Content-Type': 'application/json'}
+        })
+    }
+    return metricsResponse(summaryMetrics(summaries), negotiateFormat(r.headers.get('accept')))
+}
+
+/**
+ * Summarize the results of each module and target over each window ending at `now`.
+ *
+ * @param {Array<ResultSeries>} series
+ * @param {Array<HistoryWindow>} windows
+ * @param {number} now in milliseconds since epoch
+ * @return {Array<TargetSummary>}
+ */
+export function summarize(series: Array<ResultSeries>, windows: Array<HistoryWindow>,
+                          now: number): Array<TargetSummary> {
+    return series.map(({module, target, records}) => {
+        const summaries: { [window: string]: WindowSummary } = {}
+        for (let window of windows) {
+            const inWindow = records.filter(r => r.time > now - window.seconds * 1000)
+            const durations = inWindow.map(r => r.duration)
+            const successes = inWindow.filter(r => r.success).length
+            const lastFailure = inWindow.filter(r => !r.success).pop()
+            summaries[window.name] = {
+                probes: inWindow.length,
+                covered_seconds: inWindow.length === 0 ? 0 : (now - inWindow[0].time) / 1000,
+                availability_percent: inWindow.length === 0 ? null : successes / inWindow.length * 100,
+                duration_seconds: {
+                    p50: percentile(durations, 50),
+                    p90: percentile(durations, 90),
+                    p99: percentile(durations, 99),
+                },
+                last_failure: lastFailure === undefined ? null : {
+                    time: new Date(lastFailure.time).toISOString(),
+                    failed_due_to: lastFailure.failed_due_to,
+                },
+            }
+        }
+        return {module, target, windows: summaries}
+    })
+}
+
+function summaryMetrics(summaries: Array<TargetSummary>): Array<Metric> {
+    const metrics = summaries.map(({module, target, windows}) => Object.keys(windows).map(name => {
+        const w = windows[name]
+        const failure = w.last_failure
+        return labelMetrics([
+            gauge('probe_summary_probes', 'Number of recorded probes in the window', w.probes),
+            gauge('probe_summary_covered_seconds', 'Time span of the window since its oldest recorded probe',
+                w.covered_seconds),
+            gauge('probe_summary_availability_percent', 'Percentage of successful probes in the window',
+                w.availability_percent === null ? undefined : w.availability_percent),
+            {
+                name: 'probe_summary_duration_seconds',
+                help: 'Percentiles of the probe duration in the window',
+                type: 'gauge',
+                samples: (['p50', 'p90', 'p99'] as Array<'p50' | 'p90' | 'p99'>)
+                    .filter(p => w.duration_seconds[p] !== null)
+                    .map(p => ({labels: {quantile: String(parseInt(p.slice(1)) / 100)}, value: w.duration_seconds[p]!}))
+            },
+            gauge('probe_summary_last_failure_timestamp_seconds', 'Time of the last failed probe in the window',
+                failure === null ? undefined : Date.parse(failure.time) / 1000),
+            {
+                name: 'probe_summary_last_failure_reason',
+                help: 'Reasons of the last failed probe in the window',
+                type: 'gauge',
+                samples: failure === null ? [] : failure.failed_due_to.map(reason => ({labels: {reason}, value: 1}))
+            },
+        ] as Array<Metric>, {module, target, window: name})
+    }))
+    return mergeMetrics(metrics.reduce((a, b) => a.concat(b), []))
+}
+
+// Longest window of the history, which is also how long results are kept by the in-memory result store
+const maxHistoryWindow = 7 * 24 * 3600
+
+/**
+ * Result store keeping the recent results of each module and target in memory of the worker instance,
+ * so a summary only covers the probes handled by the same instance.
+ *
+ * At most `maxResults` results are kept for each of the `maxSeries` most recently probed modules and targets,
+ * e.g. about 4 hours of results at a 15s scrape interval, so the summary of a longer window only covers the
+ * time span of its `covered_seconds`.
+ */
+export class MemoryResultStore implements ResultStore {
+    // ordered by last update, to evict the least recently probed series first
+    private readonly series = new Map<string, ResultSeries>()
+
+    constructor(private readonly maxResults: number = 1000,
+                private readonly maxSeries: number = 100,
+                private readonly maxAge: number = maxHistoryWindow,
+                private readonly now: () => number = Date.now) {
+    }
+
+    async add(module: string, target: string, record: ProbeRecord): Promise<void> {
+        const key = JSON.stringify([module, target])
+        const series = this.series.get(key) || {module, target, records: []}
+        this.series.delete(key)
+        this.series.set(key, series)
+        series.records.push(record)
+        this.prune(series)
+        if (this.series.size > this.maxSeries) {
+            this.series.delete(this.series.keys().next().value)
+        }
+    }
+
+    async query(since: number): Promise<Array<ResultSeries>> {
+        const result: Array<ResultSeries> = []
+        for (let series of this.series.values()) {
+            this.prune(series)
+            const records = series.records.filter(r => r.time >= since)
+            if (records.length > 0) {
+                result.push({module: series.module, target: series.target, records})
+            }
+        }
+        return result
+    }
+
+    private prune(series: ResultSeries) {
+        const records = series.records
+        const oldest = this.now() - this.maxAge * 1000
+        let expired = 0
+        while (expired < records.length && records[expired].time < oldest) {
+            expired++
+        }
+        records.splice(0, Math.max(expired, records.length - this.maxResults))
+    }
+}
+
+const resultStore: ResultStore = new MemoryResultStore()
+
+/**
+ * Parse request params for module and target.
+ * Return an Error if either 'module' or 'target' param is missing.
+ *
+ * @param {Request} r the request to parse
+ * @return {[RequestParam , null] | [null , Error]}
+ */
+export function parseParams(r: Request): [RequestParam, null] | [null, Error] {
+    const url = new URL(r.url)
+    if (!url.searchParams.has('module')) {
+        return [null, new Error('module parameter is missing')]
+    }
+    if (!url.searchParams.has('target')) {
+        return [null, new Error('target parameter is missing')]
+    }
+    const result = {
+        module: url.searchParams.get('module') || '',
+        target: url.searchParams.get('target') || '',
+        debug: url.searchParams.get('debug') === 'true'
+    }
+    return [result, null]
+}
+
+/**
+ * Parse the module and targets of a batch request, see @processBatch.
+ *
+ * @param {Request} r the request to parse
+ * @return {Promise<[Array<ProbeTarget> , null] | [null , Error]>}
+ */
+export async function parseBatchParams(r: Request): Promise<[Array<ProbeTarget>, null] | [null, Error]> {
+    if (r.method !== 'POST') {
+        const url = new URL(r.url)
+        const module = url.searchParams.get('module')
+        if (module === null) {
+            return [null, new Error('module parameter is missing')]
+        }
+        return [url.searchParams.getAll('target').map(target => ({module, target})), null]
+    }
+
+    let body: any
+    try {
+        body = JSON.parse(await r.text())
+    } catch (e) {
+        return [null, new Error(`invalid JSON body: ${e.message}`)]
+    }
+    const valid = Array.isArray(body) && body.every((item: any) =>
+        isMapping(item) && typeof item.module === 'string' && typeof item.target === 'string')
+    if (!valid) {
+        return [null, new Error('body must be a list of {"module": ..., "target": ...}')]
+    }
+    return [body.map((item: any) => ({module: item.module, target: item.target})), null]
+}
+
+/**
+ * Run the probe or scenario of a module against the target, see @doProbe and @doScenario.
+ */
+function runModule(module: ProberModule, target: string, log: ProbeLog,
+                   timeout: number): Promise<[ProbeResult, null] | [null, Error]> {
+    return module instanceof HttpScenario
+        ? doScenario(module, target, log, timeout)
+        : doProbe(module, target, log, timeout)
+}
+
+/**
+ * Probe the target with given probe config, recording what happens in the log.
+ * Return an Error if the probe request can't be made, e.g. the target is not allowed.
+ * Failing to fetch the target, or not receiving the full response in time, is a failed probe instead.
+ *
+ * @param {HttpProbe} probe
+ * @param {string} target
+ * @param {ProbeLog} log
+ * @param {number} timeout in seconds
+ * @return {Promise<[ProbeResult , null] | [null , Error]>}
+ */
+async function doProbe(probe: HttpProbe, target: string, log: ProbeLog,
+                       timeout: number): Promise<[ProbeResult, null] | [null, Error]> {
+    const [req, err] = buildRequest(probe, target)
+    if (err !== null) {
+        log.add(`Error creating request: ${err.message}`)
+        return [null, err]
+    }
+    const {result} = await sendProbe(probe, req!, probe.body, log, timeout)
+    return [result, null]
+}
+
+/**
+ * Outcome of sending a probe request: the result, and the final response with its body if it was received.
+ */
+interface ProbeExchange {
+    readonly result: ProbeResult
+    readonly response: Response | null
+    readonly body: string
+}
+
+/**
+ * Send the probe request, following redirects unless disabled, and validate the final response.
+ *
+ * @param {HttpProbe} probe
+ * @param {Request} req
+ * @param {string} body body of the request, to send again when following redirects
+ * @param {ProbeLog} log
+ * @param {number} timeout in seconds
+ * @return {Promise<ProbeExchange>}
+ */
+async function sendProbe(probe: HttpProbe, req: Request, body: string, log: ProbeLog,
+                         timeout: number): Promise<ProbeExchange> {
+    log.add(`Making HTTP request, method=${req.method} url=${req.url}`)
+    log.addHeaders('Request headers', req.headers)
+
+    const controller = new AbortController()
+    const [deadline, clearDeadline] = startDeadline(timeout, controller)
+    // performance.now() is not available in CF workers
+    const start = Date.now()
+    let resp: Response
+    let url = req.url
+    let redirects = 0
+    // time until the response headers are received, summed over all redirects
+    let processing = 0
+    let firstByte: number
+    let bytes: ArrayBuffer
+    try {
+        let current = req
+        while (true) {
+            const hopStart = Date.now()
+            resp = await Promise.race([fetch(current, {signal: controller.signal}), deadline])
+            // fetch() resolves as soon as the response headers are received, the body is still being transferred
+            // at this point. So this is roughly the time to first byte, including connection setup and processing.
+            processing += Date.now() - hopStart
+            const location = resp.headers.get('location')
+            if (probe.noFollowRedirects || !isRedirect(resp.status) || location === null) {
+                break
+            }
+            if (redirects >= maxRedirects) {
+                throw new Error(`stopped after ${maxRedirects} redirects`)
+            }
+            redirects++
+            discardBody(resp)
+            current = redirectRequest(current, resp.status, location, body)
+            url = current.url
+            log.add(`Received redirect, status_code=${resp.status} location=${url}`)
+        }
+        firstByte = Date.now()
+        // Read the full response's body first to measure the total response time.
+        bytes = await Promise.race([resp.arrayBuffer(), deadline])
+    } catch (e) {
+        const reason = e === timeoutError ? 'timeout' : 'fetch_error'
+        log.add(reason === 'timeout' ? `Probe timed out after ${timeout}s` : `Error for HTTP request: ${e}`)
+        log.add('Probe failed')
+        return {
+            result: {
+                probe_success: false,
+                probe_duration_seconds: (Date.now() - start) / 1000,
+                probe_failed_due_to: [reason],
+            },
+            response: null,
+            body: '',
+        }
+    } finally {
+        clearDeadline()
+    }
+    const end = Date.now()
+    // We assume body to be text as we only care about text in (optional) validation step later,
+    // but other content type shouldn't affect the measurements.
+    const text = new TextDecoder().decode(new Uint8Array(bytes))
+    log.add(`Received HTTP response, status_code=${resp.status} redirects=${redirects} url=${url}`)
+    log.addHeaders('Response headers', resp.headers)
+    log.add(`Response timings, processing=${processing / 1000}s transfer=${(end - firstByte) / 1000}s`)
+
+    const validation = await validateResponse(probe, resp, text)
+    const steps = [...validateSsl(probe, url), ...validation.steps]
+    const success = steps.every(s => s.passed)
+    for (let step of steps) {
+        log.add(`Validation ${step.passed ? 'passed' : 'FAILED'}: ${step.message}`)
+    }
+    log.add(success ? 'Probe succeeded' : 'Probe failed')
+    const bodyLength = bytes.byteLength
+    const contentLength = parseInt(resp.headers.get('content-length') || String(bodyLength))
+    const result: ProbeResult = {
+        probe_success: success,
+        probe_duration_seconds: (end - start) / 1000,
+        probe_http_duration_seconds: {
+            processing: processing / 1000,
+            transfer: (end - firstByte) / 1000,
+        },
+        probe_http_status_code: resp.status,
+        probe_http_redirected: redirects > 0,
+        probe_http_redirects: redirects,
+        probe_http_ssl: isHttps(url),
+        probe_http_final_url: url,
+        probe_http_content_length: contentLength,
+        probe_http_uncompressed_body_length: bodyLength,
+        probe_failed_due_to: steps.filter(s => !s.passed).map(s => s.reason),
+    }
+    if (probe.jsonGauges.length > 0) {
+        result.probe_http_json_values = jsonGaugeValues(text, probe, log)
+    }
+    return {result, response: resp, body: text}
+}
+
+/**
+ * Run the steps of a scenario in order, recording what happens in the log. Values captured from the response of
+ * a step are available to the URL, headers and body of the next steps. The scenario stops at the first failed step,
+ * as the next ones may depend on it, and fails with the reasons of that step.
+ * Return an Error if the request of a step can't be made, e.g. the target is not allowed.
+ *
+ * @param {HttpScenario} scenario
+ * @param {string} target
+ * @param {ProbeLog} log
+ * @param {number} timeout in seconds, for all steps
+ * @param {Env} env environment bindings to resolve secrets from
+ * @return {Promise<[ScenarioResult , null] | [null , Error]>}
+ */
+async function doScenario(scenario: HttpScenario, target: string, log: ProbeLog, timeout: number,
+                          env: Env = globalEnv()): Promise<[ScenarioResult, null] | [null, Error]> {
+    const start = Date.now()
+    const values: CapturedValues = {}
+    const steps: Array<StepResult> = []
+    for (let step of scenario.steps) {
+        log.add(`Beginning step, name=${step.name}`)
+        const [req, err] = buildStepRequest(step, target, values, env)
+        if (req === null && !usesCapturedValues(step, values)) {
+            log.add(`Error creating request: ${err!.message}`)
+            return [null, err!]
+        }
+        let exchange: ProbeExchange
+        if (req === null) {
+            // e.g. a captured value which is not allowed in a header, which is a failure of the target
+            log.add(`Error creating request with captured values: ${err!.message}`)
+            exchange = {result: {probe_success: false, probe_failed_due_to: ['capture']}, response: null, body: ''}
+        } else {
+            const remaining = Math.max(timeout - (Date.now() - start) / 1000, 0)
+            exchange = await sendProbe(step.probe, req, interpolate(step.probe.body, values), log, remaining)
+        }
+        let result = exchange.result
+        if (result.probe_success) {
+            const [captured, captureErr] = captureValues(step.captures, exchange.response!, exchange.body)
+            if (captured === null) {
+                log.add(`Capture FAILED: ${captureErr!.message}`)
+                result = {...result, probe_success: false, probe_failed_due_to: ['capture']}
+            } else {
+                log.add(`Captured values: ${Object.keys(captured).join(', ') || 'none'}`)
+                Object.assign(values, captured)
+            }
+        }
+        steps.push({name: step.name, result})
+        if (!result.probe_success) {
+            log.add(`Step ${step.name} failed, skipping the next steps`)
+            break
+        }
+    }
+    const failed = steps.find(s => !s.result.probe_success)
+    log.add(failed === undefined ? 'Scenario succeeded' : 'Scenario failed')
+    return [{
+        probe_success: failed === undefined,
+        probe_duration_seconds: (Date.now() - start) / 1000,
+        probe_failed_due_to: failed === undefined ? [] : failed.result.probe_failed_due_to,
+        steps,
+    }, null]
+}
+
+// Same as the default of Go's HTTP client used by blackbox-exporter
+const maxRedirects = 10
+
+function isRedirect(status: number): boolean {
+    return [301, 302, 303, 307, 308].includes(status)
+}
+
+function isHttps(url: string): boolean {
+    return url.toLowerCase().startsWith('https://')
+}
+
+/**
+ * Build the request following a redirect response, like fetch() would do with redirect: 'follow'.
+ *
+ * The method is changed to GET (without body) for 303 responses, and for 301 / 302 responses to POST requests.
+ * The Authorization header is not sent to a different origin.
+ *
+ * @param {Request} r the request that was redirected
+ * @param {number} status status code of the redirect response
+ * @param {string} location Location header of the redirect response, can be relative to the request URL
+ * @param {string} body body of the original request, as it can't be read again from the request
+ * @return {Request}
+ */
+export function redirectRequest(r: Request, status: number, location: string, body: string): Request {
+    const url = new URL(location, r.url)
+    const changeToGet = status === 303 ? r.method !== 'HEAD' : (status === 301 || status === 302) && r.method === 'POST'
+    const headers = new Headers(r.headers)
+    if (changeToGet) {
+        headers.delete('content-type')
+        headers.delete('content-length')
+    }
+    if (url.origin !== new URL(r.url).origin) {
+        headers.delete('authorization')
+    }
+    const options: RequestInit = {
+        method: changeToGet ? 'GET' : r.method,
+        headers: headers,
+        redirect: 'manual'
+    }
+    if (!changeToGet && body !== '') {
+        options.body = body
+    }
+    return new Request(url.toString(), options)
+}
+
+/**
+ * Determine the timeout of a probe, which is the module's timeout but capped by Prometheus's scrape timeout
+ * (minus a small offset so that the result is sent back before Prometheus gives up), if it is known.
+ *
+ * @param {ProberModule} probe
+ * @param {string | null} scrapeTimeout value of X-Prometheus-Scrape-Timeout-Seconds header
+ * @return {number} the timeout in seconds
+ */
+export function probeTimeout(probe: ProberModule, scrapeTimeout: string | null): number {
+    let timeout = parseFloat(scrapeTimeout || '')
+    if (isNaN(timeout) || timeout <= 0) {
+        return probe.timeout
+    }
+    if (timeout > scrapeTimeoutOffset) {
+        timeout -= scrapeTimeoutOffset
+    }
+    return Math.min(probe.timeout, timeout)
+}
+
+const scrapeTimeoutOffset = 0.5
+
+/**
+ * Start a timer which aborts the controller and rejects the returned promise with @timeoutError after given seconds,
+ * unless it is cleared by the returned function before that.
+ */
+function startDeadline(seconds: number, controller: AbortController): [Promise<never>, () => void] {
+    let timer: number
+    const deadline = new Promise<never>((resolve, reject) => {
+        timer = startTimer(() => {
+            controller.abort()
+            reject(timeoutError)
+        }, seconds * 1000)
+    })
+    return [deadline, () => cancelTimer(timer)]
+}
+
+const timeoutError = new Error('probe timed out')
+
+/**
+ * Build a probing request to send for given probe config and target.
+ *
+ * @param {HttpProbe} probe
+ * @param {string} target
+ * @return {[Request , null] | [null , Error]}
+ */
+export function buildRequest(probe: HttpProbe, target: string,
+                             env: Env = globalEnv()): [Request, null] | [null, Error] {
+    if (probe.body !== '' && (probe.method === 'GET' || probe.method === 'HEAD')) {
+        return [null, new Error('body is not allowed for GET or HEAD request')]
+    }
+    const normTarget = target.toLowerCase()
+    if (!normTarget.startsWith('http://') && !normTarget.startsWith('https://')) {
+        return [null, new Error('target must start with either http:// or https://: ' + normTarget)]
+    }
+    if (probe.allowedTargets.length > 0) {
+        if (!probe.allowedTargets.some(isEqualOrMatched(normTarget))) {
+            return [null, new Error('target is not allowed in probe config: ' + normTarget)]
+        }
+    }
+
+    const options: RequestInit = {
+        method: probe.method,
+        // redirects are followed by the probe itself, to count them and apply the timeout to each of them
+        redirect: 'manual'
+    }
+    if (Object.keys(probe.headers)) {
+        options.headers = new Headers(probe.headers)
+    }
+    const [authorization, authErr] = buildAuthorization(probe, env)
+    if (authErr !== null) {
+        return [null, authErr]
+    }
+    if (authorization !== null) {
+        options.headers = new Headers(options.headers)
+        options.headers.set('Authorization', authorization)
+    }
+    if (probe.body !== '') {
+        options.body = probe.body
+    }
+    // only the scheme and host are case-insensitive, the target is sent as it is
+    return [new Request(target, options), null]
+}
+
+/**
+ * Build the Authorization header value from basic_auth or bearer_token options, if any.
+ *
+ * @param {HttpProbe} probe
+ * @param {Env} env environment bindings to resolve secrets from
+ * @return {[string | null , null] | [null , Error]}
+ */
+function buildAuthorization(probe: HttpProbe, env: Env): [string | null, null] | [null, Error] {
+    if (probe.basicAuth !== null) {
+        const auth = probe.basicAuth
+        const [password, err] = resolveSecret(auth.password || '', auth.password_env, env)
+        if (err !== null) {
+            return [null, err]
+        }
+        // btoa() only accepts Latin-1 chars, so the credentials need to be encoded as UTF-8 first
+        return [`Basic ${btoa(unescape(encodeURIComponent(`${auth.username}:${password}`)))}`, null]
+    }
+    if (probe.bearerToken !== '' || probe.bearerTokenEnv !== undefined) {
+        const [token, err] = resolveSecret(probe.bearerToken, probe.bearerTokenEnv, env)
+        if (err !== null) {
+            return [null, err]
+        }
+        return [`Bearer ${token}`, null]
+    }
+    return [null, null]
+}
+
+/**
+ * Resolve a secret, which is either given as is or as the name of an environment binding holding it.
+ *
+ * @param {string} value
+ * @param {string | undefined} envName
+ * @param {Env} env
+ * @return {[string , null] | [null , Error]}
+ */
+function resolveSecret(value: string, envName: string | undefined, env: Env): [string, null] | [null, Error] {
+    if (envName === undefined) {
+        return [value, null]
+    }
+    const secret = env[envName]
+    if (typeof secret !== 'string') {
+        return [null, new Error(`environment binding is not set: ${envName}`)]
+    }
+    return [secret, null]
+}
+
+/**
+ * Environment bindings of the worker, which are global variables in Service Worker syntax.
+ */
+function globalEnv(): Env {
+    // only the variables and secrets are read from the global scope, which has other properties too
+    return typeof self !== 'undefined' ? self as object as Env : {}
+}
+
+/**
+ * Build the request of a scenario step: its URL is resolved against the target, and `${name}` placeholders
+ * in the URL, headers and body are replaced by the values captured by the previous steps.
+ *
+ * @param {ScenarioStep} step
+ * @param {string} target
+ * @param {CapturedValues} values
+ * @param {Env} env environment bindings to resolve secrets from
+ * @return {[Request , null] | [null , Error]}
+ */
+export function buildStepRequest(step: ScenarioStep, target: string, values: CapturedValues,
+                                 env: Env = globalEnv()): [Request, null] | [null, Error] {
+    let url = target
+    if (step.url !== null) {
+        try {
+            url = new URL(interpolate(step.url, values, encodeURIComponent), target).toString()
+        } catch (e) {
+            return [null, new Error(`invalid URL of step ${step.name}: ${e.message}`)]
+        }
+    }
+    const [req, err] = buildRequest(step.probe, url, env)
+    if (req === null) {
+        return [null, err!]
+    }
+    const headers = new Headers()
+    try {
+        req.headers.forEach((value, name) => headers.set(name, interpolate(value, values)))
+    } catch (e) {
+        return [null, new Error(`invalid header of step ${step.name}: ${e.message}`)]
+    }
+    const options: RequestInit = {method: req.method, headers, redirect: 'manual'}
+    if (step.probe.body !== '') {
+        options.body = interpolate(step.probe.body, values)
+    }
+    return [new Request(req.url, options), null]
+}
+
+/**
+ * Whether the URL or headers of the step have placeholders of captured values, which can make its request invalid.
+ */
+function usesCapturedValues(step: ScenarioStep, values: CapturedValues): boolean {
+    const headers = step.probe.headers
+    const texts = [step.url || '', ...Object.keys(headers).map(name => headers[name])]
+    return texts.some(text => placeholders(text).some(name => values.hasOwnProperty(name)))
+}
+
+const placeholderPattern = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g
+
+/**
+ * Replace `${name}` placeholders in the text by the values, which are escaped by `escape` if given.
+ * Unknown placeholders are left as they are, but they are rejected when parsing the config anyway.
+ */
+function interpolate(text: string, values: CapturedValues, escape: (value: string) => string = v => v): string {
+    return text.replace(placeholderPattern, (placeholder, name) =>
+        values.hasOwnProperty(name) ? escape(values[name]) : placeholder)
+}
+
+function placeholders(text: string): Array<string> {
+    const names: Array<string> = []
+    text.replace(placeholderPattern, (placeholder, name) => {
+        names.push(name)
+        return placeholder
+    })
+    return names
+}
+
+/**
+ * Capture the values of a step from its response. Return an Error if a value is not found.
+ *
+ * @param {Array<Capture>} captures
+ * @param {Response} resp
+ * @param {string} body
+ * @return {[CapturedValues , null] | [null , Error]}
+ */
+export function captureValues(captures: Array<Capture>, resp: Response,
+                              body: string): [CapturedValues, null] | [null, Error] {
+    const values: CapturedValues = {}
+    let doc: any
+    for (let capture of captures) {
+        let value: string | null = null
+        if (capture.json !== null) {
+            if (doc === undefined) {
+                try {
+                    doc = JSON.parse(body)
+                } catch (e) {
+                    return [null, new Error(`body is not valid JSON to capture ${capture.name}: ${e.message}`)]
+                }
+            }
+            const found = lookupJsonPath(doc, capture.json)
+            if (found !== undefined && found !== null) {
+                value = typeof found === 'object' ? JSON.stringify(found) : String(found)
+            }
+        } else {
+            const text = capture.header !== null ? resp.headers.get(capture.header) : body
+            if (text !== null && capture.regexp !== null) {
+                const match = capture.regexp.exec(text)
+                // the first group if any, otherwise the whole match
+                value = match === null ? null : match[match.length > 1 ? 1 : 0]
+            } else {
+                value = text
+            }
+        }
+        if (value === null) {
+            return [null, new Error(`value of ${capture.name} is not found by ${captureSource(capture)}`)]
+        }
+        values[capture.name] = value
+    }
+    return [values, null]
+}
+
+function captureSource(capture: Capture): string {
+    if (capture.json !== null) {
+        return `JSON path ${capture.json}`
+    }
+    const source = capture.header !== null ? `header ${capture.header}` : 'body'
+    return capture.regexp !== null ? `regexp ${capture.regexp} in ${source}` : source
+}
+
+/**
+ * Look up a value of a JSON document by a path like `data.items[0].id`, optionally starting with `$.`.
+ *
+ * @param doc the parsed JSON document
+ * @param {string} path
+ * @return {any} the value, or undefined if there is none at the path
+ */
+export function lookupJsonPath(doc: any, path: string): any {
+    let value = doc
+    for (let key of parseJsonPath(path)) {
+        // the document is the target's, whose keys could shadow the methods of Object
+        if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+            return undefined
+        }
+        value = value[key]
+    }
+    return value
+}
+
+/**
+ * Split a JSON path into property names and array indices. Throw an Error if the path is invalid.
+ *
+ * @param {string} path
+ * @return {Array<string | number>}
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+    const keys: Array<string | number> = []
+    const rest = path.replace(/^\$/, '').replace(/^(?=[^.[])/, '.')
+    const token = /\.([^.[\]]+)|\[(\d+)\]/y
+    let end = 0
+    while (end < rest.length) {
+        token.lastIndex = end
+        const match = token.exec(rest)
+        if (match === null) {
+            throw new Error(`invalid JSON path: ${path}`)
+        }
+        keys.push(match[1] !== undefined ? match[1] : parseInt(match[2]))
+        end = token.lastIndex
+    }
+    return keys
+}
+
+/**
+ * Validate received response based on given probe config.
+ * All checks are done even if an earlier one failed, so that all reasons of a failure are known.
+ *
+ * @param {HttpProbe} probe
+ * @param {Response} resp
+ * @param {string | null} body optional body text in case it is already read from the response,
+ *        otherwise will be read from response as `resp.text()`
+ * @return {Promise<ValidationResult>}
+ */
+export async function validateResponse(probe: HttpProbe, resp: Response,
+                                       body: string | null = null): Promise<ValidationResult> {
+    const steps = [validateResponseStatus(resp.status, probe.validStatusCodes)]
+    steps.push(...validateResponseHeaders(resp.headers, probe))
+
+    if (body === null) {
+        body = await resp.text()
+    }
+    steps.push(...validateResponseBody(body, probe))
+    steps.push(...validateResponseJson(body, probe))
+    return {success: steps.every(s => s.passed), steps}
+}
+
+/**
+ * Validate whether the final URL of the probe, after following redirects, uses HTTPS or not.
+ *
+ * @param {HttpProbe} probe
+ * @param {string} url
+ * @return {Array<ValidationStep>}
+ */
+export function validateSsl(probe: HttpProbe, url: string): Array<ValidationStep> {
+    const ssl = isHttps(url)
+    const message = `final URL ${url} ${ssl ? 'uses' : 'does not use'} SSL`
+    const steps: Array<ValidationStep> = []
+    if (probe.failIfSsl) {
+        steps.push({reason: 'ssl', passed: !ssl, message: `${message} (fail_if_ssl)`})
+    }
+    if (probe.failIfNotSsl) {
+        steps.push({reason: 'ssl', passed: ssl, message: `${message} (fail_if_not_ssl)`})
+    }
+    return steps
+}
+
+function validateResponseStatus(status: number, validStatus: Array<number> | HttpStatusCodeClass): ValidationStep {
+    let valid: boolean
+    switch (validStatus) {
+        case HttpStatusCodeClass.Http_1xx:
+            valid = status >= 100 && status < 200
+            break
+        case HttpStatusCodeClass.Http_2xx:
+            valid = status >= 200 && status < 300
+            break
+        case HttpStatusCodeClass.Http_3xx:
+            valid = status >= 300 && status < 400
+            break
+        case HttpStatusCodeClass.Http_4xx:
+            valid = status >= 400 && status < 500
+            break
+        case HttpStatusCodeClass.Http_5xx:
+            valid = status >= 500 && status < 600
+            break
+        default:
+            valid = (validStatus as Array<number>).includes(status)
+    }
+    const expected = Array.isArray(validStatus) ? validStatus.join(', ') : statusCodeClassName(validStatus)
+    return {
+        reason: 'status_code',
+        passed: valid,
+        message: `status code ${status} ${valid ? 'is' : 'is not'} one of the valid status codes: ${expected}`
+    }
+}
+
+function validateResponseHeaders(headers: Headers, probe: HttpProbe): Array<ValidationStep> {
+    const steps: Array<ValidationStep> = []
+    const matchHeader = (m: HeaderMatch, failIfMatches: boolean) => {
+        const option = failIfMatches ? 'fail_if_header_matches' : 'fail_if_header_not_matches'
+        const value = headers.get(m.header)
+        if (value === null) {
+            steps.push({
+                reason: 'header_regex',
+                passed: m.allowMissing,
+                message: `header ${m.header} is missing${m.allowMissing ? ', which is allowed' : ''} (${option})`
+            })
+            return
+        }
+        const matched = m.regexp.test(value)
+        steps.push({
+            reason: 'header_regex',
+            passed: matched !== failIfMatches,
+            message: `header ${m.header} value ${JSON.stringify(value)} ${matched ? 'matched' : 'did not match'} ` +
+            `${option} regexp ${m.regexp}`
+        })
+    }
+    probe.failIfHeaderMatches.forEach(m => matchHeader(m, true))
+    probe.failIfHeaderNotMatches.forEach(m => matchHeader(m, false))
+    return steps
+}
+
+function validateResponseBody(text: string, probe: HttpProbe): Array<ValidationStep> {
+    const steps: Array<ValidationStep> = []
+    for (let r of probe.failIfMatchesRegexp) {
+        const matched = r.test(text)
+        steps.push({
+            reason: 'body_regex',
+            passed: !matched,
+            message: `body ${matched ? 'matched' : 'did not match'} fail_if_matches_regexp ${r}`
+        })
+    }
+    for (let r of probe.failIfNotMatchesRegexp) {
+        const matched = r.test(text)
+        steps.push({
+            reason: 'body_regex',
+            passed: matched,
+            message: `body ${matched ? 'matched' : 'did not match'} fail_if_not_matches_regexp ${r}`
+        })
+    }
+    return steps
+}
+
+function validateResponseJson(text: string, probe: HttpProbe): Array<ValidationStep> {
+    if (probe.jsonAssertions.length === 0) {
+        return []
+    }
+    let doc: any
+    try {
+        doc = JSON.parse(text)
+    } catch (e) {
+        return [{reason: 'invalid_json', passed: false, message: `body is not valid JSON: ${e.message}`}]
+    }
+    const steps: Array<ValidationStep> = []
+    for (let assertion of probe.jsonAssertions) {
+        const value = lookupJsonPath(doc, assertion.path)
+        const described = value === undefined ? 'is missing' : JSON.stringify(value)
+        if (assertion.exists !== undefined) {
+            const exists = value !== undefined
+            steps.push({
+                reason: 'body_json',
+                passed: exists === assertion.exists,
+                message: `value at ${assertion.path} ${exists ? 'exists' : 'is missing'} (exists: ${assertion.exists})`
+            })
+        }
+        if (assertion.equals !== undefined) {
+            const equal = value !== undefined && JSON.stringify(value) === JSON.stringify(assertion.equals)
+            steps.push({
+                reason: 'body_json',
+                passed: equal,
+                message: `value at ${assertion.path} ${described} ${equal ? 'equals' : 'does not equal'} ` +
+                `${JSON.stringify(assertion.equals)}`
+            })
+        }
+        for (let op of jsonComparisons) {
+            const bound = assertion[op]
+            if (bound === undefined) {
+                continue
+            }
+            const [symbol, compare] = comparators[op]
+            const passed = typeof value === 'number' && compare(value, bound)
+            steps.push({
+                reason: 'body_json',
+                passed,
+                message: `value at ${assertion.path} ${described} ${passed ? 'is' : 'is not'} ${symbol} ${bound}`
+            })
+        }
+    }
+    return steps
+}
+
+const jsonComparisons: Array<JsonComparison> = ['lt', 'lte', 'gt', 'gte']
+
+const comparators: { [op in JsonComparison]: [string, (value: number, bound: number) => boolean] } = {
+    lt: ['<', (value, bound) => value < bound],
+    lte: ['<=', (value, bound) => value <= bound],
+    gt: ['>', (value, bound) => value > bound],
+    gte: ['>=', (value, bound) => value >= bound],
+}
+
+/**
+ * Read the numeric values of the JSON body to export as gauges, by path. Values which are missing or
+ * not numbers are skipped, as well as all values if the body is not JSON.
+ */
+function jsonGaugeValues(text: string, probe: HttpProbe, log: ProbeLog): { [path: string]: number } {
+    const values: { [path: string]: number } = {}
+    let doc: any
+    try {
+        doc = JSON.parse(text)
+    } catch (e) {
+        log.add(`Body is not valid JSON, no JSON gauges: ${e.message}`)
+        return values
+    }
+    for (let path of probe.jsonGauges) {
+        const value = lookupJsonPath(doc, path)
+        if (typeof value === 'number' || typeof value === 'boolean') {
+            values[path] = Number(value)
+        } else {
+            log.add(`JSON gauge ${path} is not a number: ${value === undefined ? 'missing' : JSON.stringify(value)}`)
+        }
+    }
+    return values
+}
+
+/**
+ * Human-readable log of a probe, shown in debug mode.
+ */
+export class ProbeLog {
+    private readonly lines: Array<string> = []
+
+    add(msg: string) {
+        this.lines.push(`ts=${new Date().toISOString()} msg=${JSON.stringify(msg)}`)
+    }
+
+    addHeaders(title: string, headers: Headers) {
+        const lines: Array<string> = []
+        headers.forEach((value, name) => {
+            lines.push(`  ${name}: ${sensitiveHeaders.includes(name.toLowerCase()) ? secretPlaceholder : value}`)
+        })
+        this.add(lines.length === 0 ? `${title}: none` : `${title}:\n${lines.join('\n')}`)
+    }
+
+    toString(): string {
+        return this.lines.join('\n')
+    }
+}
+
+/**
+ * Build the debug output of a probe, similar to blackbox-exporter's debug output.
+ *
+ * @param {ProbeLog} log
+ * @param {ProbeResult | null} result the probe result, or null if the probe request couldn't be made
+ * @param {ProberModule} module
+ * @return {Response}
+ */
+function debugResponse(log: ProbeLog, result: ProbeResult | null, module: ProberModule): Response {
+    const metrics = result === null ? '' : renderMetrics(resultMetrics(result))
+    const output = `Logs for the probe:
+${log}
+
+
+Metrics that would have been returned:
+${metrics}
+
+Module configuration:
+${JSON.stringify(module, null, 2)}
+`
+    return new Response(output, {headers: {'Content-Type': 'text/plain; charset=utf-8'}})
+}
+
+/**
+ * Build output response in Prometheus (or OpenMetrics) exposition format.
+ *
+ * @param {ProbeResult} r
+ * @param {ExpositionFormat} format
+ * @return {Response}
+ */
+export function buildResponse(r: ProbeResult, format: ExpositionFormat = ExpositionFormat.Prometheus): Response {
+    return metricsResponse(resultMetrics(r), format)
+}
+
+function metricsResponse(metrics: Array<Metric>, format: ExpositionFormat): Response {
+    return new Response(renderMetrics(metrics, format), {
+        headers: {'Content-Type': contentType(format)}
+    })
+}
+
+function probeMetrics(r: ProbeResult): Array<Metric> {
+    const phases = r.probe_http_duration_seconds
+    const jsonValues = r.probe_http_json_values
+    const failures = r.probe_failed_due_to
+    return [
+        gauge('probe_success', 'Displays whether or not the probe was a success', r.probe_success),
+        gauge('probe_duration_seconds', 'Returns how long the probe took to complete in seconds',
+            r.probe_duration_seconds),
+        {
+            name: 'probe_http_duration_seconds',
+            help: 'Duration of http request by phase',
+            type: 'gauge',
+            samples: phases === undefined ? [] : Object.keys(phases).map(phase => ({
+                labels: {phase: phase},
+                value: phases[phase as HttpPhase]
+            }))
+        },
+        gauge('probe_http_status_code', 'Response HTTP status code', r.probe_http_status_code),
+        gauge('probe_http_redirected', 'Whether or not the response was the result of a redirect',
+            r.probe_http_redirected),
+        gauge('probe_http_redirects', 'The number of redirects', r.probe_http_redirects),
+        gauge('probe_http_ssl', 'Indicates if SSL was used for the final redirect', r.probe_http_ssl),
+        {
+            name: 'probe_http_final_url',
+            help: 'The final URL of the probe after following redirects',
+            type: 'gauge',
+            samples: r.probe_http_final_url === undefined ? [] : [{labels: {url: r.probe_http_final_url}, value: 1}]
+        },
+        gauge('probe_http_content_length', 'Length of http content response', r.probe_http_content_length),
+        gauge('probe_http_uncompressed_body_length', 'Length of uncompressed response body',
+            r.probe_http_uncompressed_body_length),
+        {
+            name: 'probe_http_json_value',
+            help: 'Numeric values of the JSON response body, by path',
+            type: 'gauge',
+            samples: jsonValues === undefined ? [] : Object.keys(jsonValues).map(path => ({
+                labels: {path: path},
+                value: jsonValues[path]
+            }))
+        },
+        gauge('probe_failed_due_to_regex', 'Indicates if probe failed due to regex',
+            failures === undefined ? undefined : failures.some(f => f === 'header_regex' || f === 'body_regex')),
+        {
+            name: 'probe_failed_due_to',
+            help: 'Indicates if probe failed due to the reason',
+            type: 'gauge',
+            samples: failures === undefined ? [] : failureReasons.map(reason => ({
+                labels: {reason: reason},
+                value: failures.includes(reason) ? 1 : 0
+            }))
+        },
+    ]
+}
+
+function resultMetrics(r: ProbeResult): Array<Metric> {
+    return (r as ScenarioResult).steps !== undefined ? scenarioMetrics(r as ScenarioResult) : probeMetrics(r)
+}
+
+/**
+ * Metrics of a scenario: success, duration and failure reasons of the whole scenario, and the metrics
+ * of each step that was run as `probe_step_*` metrics, labelled by step.
+ */
+function scenarioMetrics(r: ScenarioResult): Array<Metric> {
+    const totals = probeMetrics(r).filter(m => scenarioTotals.includes(m.name))
+    const steps = mergeMetrics(r.steps.map(step => labelMetrics(probeMetrics(step.result), {step: step.name})))
+    return [...totals, ...steps.map(m => ({
+        ...m,
+        name: m.name.replace(/^probe_/, 'probe_step_'),
+        help: `${m.help}, by step of the scenario`,
+    }))]
+}
+
+const scenarioTotals = ['probe_success', 'probe_duration_seconds', 'probe_failed_due_to']
+
+/**
+ * Create an unlabelled gauge metric, which has no sample if value is undefined.
+ */
+function gauge(name: string, help: string, value: number | boolean | undefined): Metric {
+    const samples = value === undefined ? [] : [{value: typeof value === 'boolean' ? Number(value) : value}]
+    return {name, help, type: 'gauge', samples}
+}
+
+function isEqualOrMatched(s: string) {
+    return function (test: string | RegExp, index: number, array: Array<string | RegExp>): boolean {
+        return test instanceof RegExp ? test.test(s) : test === s
+    }
+}
+
+//
+// Metrics exposition
+//
+
+/**
+ * Choose the exposition format based on scraper's Accept header.
+ * OpenMetrics is only used when it is explicitly asked for, Prometheus text format otherwise.
+ *
+ * @param {string | null} accept value of the Accept header
+ * @return {ExpositionFormat}
+ */
+export function negotiateFormat(accept: string | null): ExpositionFormat {
+    if (accept !== null && accept.includes('application/openmetrics-text')) {
+        return ExpositionFormat.OpenMetrics
+    }
+    return ExpositionFormat.Prometheus
+}
+
+function contentType(format: ExpositionFormat): string {
+    return format === ExpositionFormat.OpenMetrics
+        ? 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+        : 'text/plain; version=0.0.4; charset=utf-8'
+}
+
+/**
+ * Render metrics in text exposition format.
+ *
+ * See https://prometheus.io/docs/instrumenting/exposition_formats/ and
+ * https://github.com/OpenObservability/OpenMetrics/blob/main/specification/OpenMetrics.md
+ *
+ * @param {Array<Metric>} metrics
+ * @param {ExpositionFormat} format
+ * @return {string}
+ */
+export function renderMetrics(metrics: Array<Metric>, format: ExpositionFormat = ExpositionFormat.Prometheus): string {
+    let output = ''
+    for (let m of metrics) {
+        // OpenMetrics counters have the '_total' suffix on samples only, not on the metric family
+        const family = (format === ExpositionFormat.OpenMetrics && m.type === 'counter')
+            ? m.name.replace(/_total$/, '')
+            : m.name
+        const type = (format === ExpositionFormat.OpenMetrics && m.type === 'untyped') ? 'unknown' : m.type
+        output += `# HELP ${family} ${escapeHelp(m.help)}\n`
+        output += `# TYPE ${family} ${type}\n`
+        for (let s of m.samples) {
+            output += `${m.name}${renderLabels(s.labels || {})} ${formatValue(s.value)}\n`
+        }
+    }
+    if (format === ExpositionFormat.OpenMetrics) {
+        output += '# EOF\n'
+    }
+    return output
+}
+
+/**
+ * Add the labels to all samples of given metrics, before their own labels.
+ *
+ * @param {Array<Metric>} metrics
+ * @param {Labels} labels
+ * @return {Array<Metric>}
+ */
+export function labelMetrics(metrics: Array<Metric>, labels: Labels): Array<Metric> {
+    return metrics.map(m => ({
+        ...m,
+        samples: m.samples.map(s => ({...s, labels: {...labels, ...s.labels}}))
+    }))
+}
+
+/**
+ * Merge lists of metrics into one, where samples of metrics with the same name are in a single metric.
+ *
+ * @param {Array<Array<Metric>>} metricsList
+ * @return {Array<Metric>}
+ */
+export function mergeMetrics(metricsList: Array<Array<Metric>>): Array<Metric> {
+    const merged: Array<Metric> = []
+    const byName: { [name: string]: Metric } = {}
+    for (let metrics of metricsList) {
+        for (let m of metrics) {
+            if (!byName.hasOwnProperty(m.name)) {
+                byName[m.name] = {...m, samples: []}
+                merged.push(byName[m.name])
+            }
+            byName[m.name].samples.push(...m.samples)
+        }
+    }
+    return merged
+}
+
+function renderLabels(labels: Labels): string {
+    const names = Object.keys(labels)
+    if (names.length === 0) {
+        return ''
+    }
+    return '{' + names.map(name => `${name}="${escapeLabelValue(labels[name])}"`).join(',') + '}'
+}
+
+/**
+ * Escape a label value, i.e. backslash, double-quote and line feed.
+ *
+ * @param {string} value
+ * @return {string}
+ */
+export function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN'
+    }
+    if (value === Infinity) {
+        return '+Inf'
+    }
+    if (value === -Infinity) {
+        return '-Inf'
+    }
+    return String(value)
+}
+
+//
+// Configuration
+//
+
+/**
+ * Load the modules configuration from the source bound to the worker (if any),
+ * otherwise use the sample modules above.
+ *
+ * @return {Promise<ProberConfig>}
+ */
+async function loadConfig(): Promise<ProberConfig> {
+    if (configLoader === null) {
+        let source: ConfigSource
+        if (typeof PROBER_CONFIG_STORE !== 'undefined') {
+            const key = typeof PROBER_CONFIG_KEY !== 'undefined' ? PROBER_CONFIG_KEY : 'config'
+            source = storeConfigSource(PROBER_CONFIG_STORE, key)
+        } else if (typeof PROBER_CONFIG_URL !== 'undefined') {
+            source = urlConfigSource(PROBER_CONFIG_URL)
+        } else if (builtinConfig !== null) {
+            const text = builtinConfig
+            source = async () => text
+        } else {
+            const modules: { [name: string]: HttpProbe } = {}
+            for (let name of Object.keys(sampleModules)) {
+                modules[name] = new HttpProbe(sampleModules[name])
+            }
+            return {modules, history: sampleHistory, access: sampleAccess}
+        }
+        const ttl = typeof PROBER_CONFIG_TTL !== 'undefined' ? parseInt(PROBER_CONFIG_TTL) : 60
+        configLoader = new ConfigLoader(source, ttl)
+    }
+    return configLoader.load()
+}
+
+let configLoader: ConfigLoader | null = null
+
+/**
+ * Show the effective configuration, in the same shape as the configuration document.
+ *
+ * @param {ProberConfig} config
+ * @return {Response}
+ */
+function configResponse(config: ProberConfig): Response {
+    const modules: { [name: string]: object } = {}
+    for (let name of Object.keys(config.modules)) {
+        const module = config.modules[name]
+        modules[name] = module instanceof HttpScenario
+            ? {prober: 'http', ...module.toJSON()}
+            : {prober: 'http', http: module}
+    }
+    const history = config.history === undefined ? undefined : {windows: config.history.windows.map(w => w.name)}
+    const access = config.access === undefined ? undefined : accessJSON(config.access)
+    return new Response(JSON.stringify({modules, history, access}, null, 2) + '\n', {
+        headers: {'Content-Type': 'application/json'}
+    })
+}
+
+/**
+ * The access config with the secrets of callers redacted, but not the names of the environment bindings holding them.
+ */
+function accessJSON(access: AccessConfig): object {
+    const callers: { [name: string]: CallerConfig } = {}
+    for (let name of Object.keys(access.callers || {})) {
+        const caller = access.callers![name]
+        callers[name] = {
+            ...caller,
+            token: caller.token === undefined ? undefined : secretPlaceholder,
+            signing_key: caller.signing_key === undefined ? undefined : secretPlaceholder,
+        }
+    }
+    return {callers: access.callers === undefined ? undefined : callers, rate_limit: access.rate_limit}
+}
+
+/**
+ * Loader of the prober configuration, which caches the parsed config for `ttl` seconds.
+ *
+ * If the config can't be reloaded once it is expired, the previously loaded one is kept for another `ttl`.
+ */
+export class ConfigLoader {
+    private config: ProberConfig | null = null
+    private expiresAt = 0
+
+    constructor(private readonly source: ConfigSource,
+                private readonly ttl: number = 60,
+                private readonly now: () => number = Date.now) {
+    }
+
+    async load(): Promise<ProberConfig> {
+        if (this.config !== null && this.now() < this.expiresAt) {
+            return this.config
+        }
+        let config: ProberConfig
+        try {
+            const [parsed, err] = parseConfig(await this.source())
+            if (parsed === null) {
+                throw err!
+            }
+            config = parsed
+        } catch (e) {
+            if (this.config === null) {
+                throw e
+            }
+            console.error(`failed to reload config, keep using the previous one: ${e.message}`)
+            config = this.config
+        }
+        this.config = config
+        this.expiresAt = this.now() + this.ttl * 1000
+        return config
+    }
+}
+
+/**
+ * Config source which fetches the config document from given URL.
+ *
+ * @param {string} url
+ * @return {ConfigSource}
+ */
+export function urlConfigSource(url: string): ConfigSource {
+    return async () => {
+        const resp = await fetch(url)
+        if (!resp.ok) {
+            throw new Error(`failed to fetch config from ${url}: ${resp.status} ${resp.statusText}`)
+        }
+        return resp.text()
+    }
+}
+
+/**
+ * Config source which reads the config document from given key of a KV-like store.
+ *
+ * @param {ConfigStore} store
+ * @param {string} key
+ * @return {ConfigSource}
+ */
+export function storeConfigSource(store: ConfigStore, key: string): ConfigSource {
+    return async () => {
+        const text = await store.get(key)
+        if (text === null) {
+            throw new Error(`config is not found in store with key: ${key}`)
+        }
+        return text
+    }
+}
+
+/**
+ * Parse and validate a blackbox-exporter style configuration document, in either YAML or JSON, e.g.
+ *
+ *     modules:
+ *       http_2xx:
+ *         prober: http
+ *         http:
+ *           valid_status_codes: [200]
+ *           fail_if_not_matches_regexp: ['"status":\s*"ok"']
+ *
+ * @param {string} text the config document
+ * @return {[ProberConfig , null] | [null , Error]}
+ */
+export function parseConfig(text: string): [ProberConfig, null] | [null, Error] {
+    let doc: any
+    try {
+        doc = parseDocument(text)
+    } catch (e) {
+        return [null, new Error(`invalid config document: ${e.message}`)]
+    }
+    if (!isMapping(doc) || !isMapping(doc.modules)) {
+        return [null, new Error('config must have a "modules" mapping')]
+    }
+    const unknownKeys = Object.keys(doc).filter(key => !['modules', 'history', 'access'].includes(key))
+    if (unknownKeys.length > 0) {
+        return [null, new Error(`unknown config keys: ${unknownKeys.join(', ')}`)]
+    }
+
+    const modules: { [name: string]: ProberModule } = {}
+    for (let name of Object.keys(doc.modules)) {
+        const [module, err] = parseModule(doc.modules[name])
+        if (module === null) {
+            return [null, new Error(`module "${name}": ${err!.message}`)]
+        }
+        modules[name] = module
+    }
+    let history: HistoryConfig | undefined
+    try {
+        history = doc.history === undefined ? undefined : parseHistory(doc.history)
+    } catch (e) {
+        return [null, new Error(`history: ${e.message}`)]
+    }
+    let access: AccessConfig | undefined
+    try {
+        access = doc.access === undefined ? undefined : parseAccess(doc.access)
+    } catch (e) {
+        return [null, new Error(`access: ${e.message}`)]
+    }
+    return [{modules, history, access}, null]
+}
+
+/**
+ * Parse the history config, e.g. `history: {windows: [5m, 1h, 24h]}`. The sample windows are used by default.
+ */
+function parseHistory(v: any): HistoryConfig {
+    if (v === null) {
+        return sampleHistory
+    }
+    if (!isMapping(v)) {
+        throw new Error('must be a mapping with windows')
+    }
+    const unknownKeys = Object.keys(v).filter(key => key !== 'windows')
+    if (unknownKeys.length > 0) {
+        throw new Error(`unknown keys: ${unknownKeys.join(', ')}`)
+    }
+    if (v.windows === undefined) {
+        return sampleHistory
+    }
+    const windows = expectArray(v.windows).map(w => {
+        const seconds = parseDuration(w)
+        if (seconds > maxHistoryWindow) {
+            throw new Error(`window ${w} is longer than the maximum of ${maxHistoryWindow / 3600}h`)
+        }
+        return {name: typeof w === 'number' ? `${w}s` : w, seconds}
+    })
+    if (windows.length === 0) {
+        throw new Error('windows must not be empty')
+    }
+    return {windows}
+}
+
+function parseModule(module: any): [ProberModule, null] | [null, Error] {
+    if (!isMapping(module)) {
+        return [null, new Error('module must be a mapping')]
+    }
+    const unknownKeys = Object.keys(module).filter(key => !moduleKeys.includes(key))
+    if (unknownKeys.length > 0) {
+        return [null, new Error(`unknown module keys: ${unknownKeys.join(', ')}`)]
+    }
+    if (module.prober !== undefined && module.prober !== 'http') {
+        return [null, new Error(`unsupported prober: ${module.prober}`)]
+    }
+
+    let timeout: number | undefined
+    if (module.timeout !== undefined) {
+        try {
+            timeout = parseDuration(module.timeout)
+        } catch (e) {
+            return [null, new Error(`invalid timeout: ${e.message}`)]
+        }
+    }
+    if (module.scenario !== undefined) {
+        if (module.http !== undefined) {
+            return [null, new Error('at most one of http and scenario can be set')]
+        }
+        return parseScenario(module.scenario, timeout)
+    }
+    const [config, err] = parseHttpOptions(module.http)
+    if (config === null) {
+        return [null, err!]
+    }
+    return checkedProbe({...config, timeout})
+}
+
+function parseHttpOptions(http: any): [HttpProbeConfig, null] | [null, Error] {
+    if (http !== undefined && http !== null && !isMapping(http)) {
+        return [null, new Error('http must be a mapping')]
+    }
+    const config: { [option: string]: any } = {}
+    for (let key of Object.keys(http || {})) {
+        const option = httpOptionAliases[key] || key
+        if (ignoredHttpOptions.includes(option)) {
+            continue
+        }
+        if (!httpOptions.hasOwnProperty(option)) {
+            return [null, new Error(`unknown http option: ${key}`)]
+        }
+        try {
+            config[option] = httpOptions[option](http[key])
+        } catch (e) {
+            return [null, new Error(`invalid http option ${key}: ${e.message}`)]
+        }
+    }
+    return [config as HttpProbeConfig, null]
+}
+
+function checkedProbe(config: HttpProbeConfig): [HttpProbe, null] | [null, Error] {
+    const probe = new HttpProbe(config)
+    if (probe.body !== '' && (probe.method === 'GET' || probe.method === 'HEAD')) {
+        return [null, new Error('body is not allowed for GET or HEAD request')]
+    }
+    if (config.no_follow_redirects !== undefined && config.follow_redirects !== undefined) {
+        return [null, new Error('at most one of no_follow_redirects and follow_redirects can be set')]
+    }
+    if (probe.bearerToken !== '' && probe.bearerTokenEnv !== undefined) {
+        return [null, new Error('at most one of bearer_token and bearer_token_env can be set')]
+    }
+    if (probe.basicAuth !== null && (probe.bearerToken !== '' || probe.bearerTokenEnv !== undefined)) {
+        return [null, new Error('at most one of basic_auth and bearer_token can be set')]
+    }
+    return [probe, null]
+}
+
+/**
+ * Parse the steps of a scenario module, e.g.
+ *
+ *     scenario:
+ *       - name: login
+ *         url: /login
+ *         http:
+ *           method: POST
+ *           body: '{"user": "prober"}'
+ *         capture:
+ *           token: {json: data.token}
+ *       - name: profile
+ *         url: /profile
+ *         http:
+ *           headers:
+ *             Authorization: 'Bearer ${token}'
+ *
+ * The placeholders of a step must refer to values captured by the previous steps.
+ */
+function parseScenario(v: any, timeout: number | undefined): [HttpScenario, null] | [null, Error] {
+    if (!Array.isArray(v) || v.length === 0) {
+        return [null, new Error('scenario must be a non-empty list of steps')]
+    }
+    const steps: Array<ScenarioStepConfig> = []
+    const captured: Array<string> = []
+    for (let i = 0; i < v.length; i++) {
+        const name = isMapping(v[i]) && typeof v[i].name === 'string' ? v[i].name : `#${i + 1}`
+        const [step, err] = parseStep(v[i], captured)
+        if (step === null) {
+            return [null, new Error(`step ${name}: ${err!.message}`)]
+        }
+        if (steps.some(s => s.name === step.name)) {
+            return [null, new Error(`step ${name}: duplicate step name`)]
+        }
+        steps.push(step)
+        captured.push(...Object.keys(step.capture || {}))
+    }
+    return [new HttpScenario({timeout, steps}), null]
+}
+
+const stepKeys = ['name', 'url', 'http', 'capture']
+
+function parseStep(v: any, captured: Array<string>): [ScenarioStepConfig, null] | [null, Error] {
+    if (!isMapping(v)) {
+        return [null, new Error('step must be a mapping')]
+    }
+    const unknownKeys = Object.keys(v).filter(key => !stepKeys.includes(key))
+    if (unknownKeys.length > 0) {
+        return [null, new Error(`unknown step keys: ${unknownKeys.join(', ')}`)]
+    }
+    let name: string
+    let url: string | undefined
+    let capture: { [name: string]: CaptureConfig } | undefined
+    try {
+        name = expectString(v.name)
+        url = v.url === undefined ? undefined : expectString(v.url)
+        capture = v.capture === undefined ? undefined : parseCaptures(v.capture)
+    } catch (e) {
+        return [null, e]
+    }
+    const [config, err] = parseHttpOptions(v.http)
+    if (config === null) {
+        return [null, err!]
+    }
+    const [probe, probeErr] = checkedProbe(config)
+    if (probe === null) {
+        return [null, probeErr!]
+    }
+    const texts = [url || '', probe.body, ...Object.keys(probe.headers).map(h => probe.headers[h])]
+    const unknown = texts.map(placeholders).reduce((a, b) => a.concat(b), []).find(p => !captured.includes(p))
+    if (unknown !== undefined) {
+        return [null, new Error(`\${${unknown}} is not captured by a previous step`)]
+    }
+    return [{name, url, http: config, capture}, null]
+}
+
+const captureKeys = ['json', 'regexp', 'header']
+
+function parseCaptures(v: any): { [name: string]: CaptureConfig } {
+    if (!isMapping(v)) {
+        throw new Error('capture must be a mapping of name to json, regexp and / or header')
+    }
+    const captures: { [name: string]: CaptureConfig } = {}
+    for (let name of Object.keys(v)) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            throw new Error(`invalid capture name: ${name}`)
+        }
+        const c = v[name]
+        const keys = isMapping(c) ? Object.keys(c) : []
+        if (keys.length === 0 || keys.some(key => !captureKeys.includes(key))) {
+            throw new Error(`capture ${name} must be a mapping with either json, or regexp and / or header`)
+        }
+        if (c.json !== undefined && (c.regexp !== undefined || c.header !== undefined)) {
+            throw new Error(`capture ${name} can't have both json and regexp or header`)
+        }
+        try {
+            captures[name] = {
+                json: c.json === undefined ? undefined : expectString(c.json),
+                regexp: c.regexp === undefined ? undefined : parseRegExp(c.regexp),
+                header: c.header === undefined ? undefined : expectString(c.header),
+            }
+            if (captures[name].json !== undefined) {
+                parseJsonPath(captures[name].json!)
+            }
+        } catch (e) {
+            throw new Error(`invalid capture ${name}: ${e.message}`)
+        }
+    }
+    return captures
+}
+
+const moduleKeys = ['prober', 'timeout', 'http', 'scenario']
+
+/**
+ * Parsers of each supported http option in config document, which return the option value for @HttpProbeConfig
+ * or throw an Error if the value is invalid.
+ */
+const httpOptions: { [option: string]: (value: any) => any } = {
+    method: (v: any) => {
+        const method = expectString(v).toUpperCase()
+        if (!httpMethods.includes(method as HttpMethod)) {
+            throw new Error(`must be one of ${httpMethods.join(', ')}`)
+        }
+        return method
+    },
+    headers: (v: any) => {
+        if (!isMapping(v)) {
+            throw new Error('must be a mapping of header name to value')
+        }
+        const headers: { [name: string]: string } = {}
+        for (let name of Object.keys(v)) {
+            if (isMapping(v[name]) || Array.isArray(v[name]) || v[name] === null) {
+                throw new Error(`value of header ${name} must be a string`)
+            }
+            headers[name] = String(v[name])
+        }
+        return headers
+    },
+    body: expectString,
+    no_follow_redirects: expectBoolean,
+    follow_redirects: expectBoolean,
+    basic_auth: parseBasicAuth,
+    bearer_token: expectString,
+    bearer_token_env: expectString,
+    allowed_targets: (v: any) => expectArray(v).map(parseTargetPattern),
+    valid_status_codes: parseStatusCodes,
+    fail_if_ssl: expectBoolean,
+    fail_if_not_ssl: expectBoolean,
+    fail_if_matches_regexp: (v: any) => expectArray(v).map(parseRegExp),
+    fail_if_not_matches_regexp: (v: any) => expectArray(v).map(parseRegExp),
+    fail_if_header_matches: (v: any) => expectArray(v).map(parseHeaderMatch),
+    fail_if_header_not_matches: (v: any) => expectArray(v).map(parseHeaderMatch),
+    json_assertions: (v: any) => expectArray(v).map(parseJsonAssertion),
+    json_gauges: (v: any) => expectArray(v).map(path => {
+        parseJsonPath(expectString(path))
+        return path
+    }),
+}
+
+/**
+ * Option names used by newer blackbox-exporter versions.
+ */
+const httpOptionAliases: { [alias: string]: string } = {
+    fail_if_body_matches_regexp: 'fail_if_matches_regexp',
+    fail_if_body_not_matches_regexp: 'fail_if_not_matches_regexp',
+}
+
+/**
+ * Options of blackbox-exporter which are accepted but have no effect, as the connection of the fetch API of
+ * workers, e.g. its HTTP version, IP protocol, TLS settings or proxy, can't be controlled or observed.
+ */
+const ignoredHttpOptions = [
+    'valid_http_versions',
+    'preferred_ip_protocol',
+    'ip_protocol_fallback',
+    'skip_resolve_phase_with_proxy',
+    'enable_http2',
+    'tls_config',
+    'proxy_url',
+    'no_proxy',
+    'proxy_from_environment',
+    'proxy_connect_header',
+]
+
+const httpMethods: Array<HttpMethod> = ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'POST', 'PUT']
+
+function parseStatusCodes(v: any): Array<number> | HttpStatusCodeClass {
+    if (typeof v === 'string' && statusCodeClasses.hasOwnProperty(v)) {
+        return statusCodeClasses[v]
+    }
+    if (!Array.isArray(v)) {
+        throw new Error('must be a list of status codes or one of 1xx, 2xx, 3xx, 4xx, 5xx')
+    }
+    return v.map((code: any) => {
+        if (typeof code !== 'number' || !Number.isInteger(code) || code < 100 || code > 599) {
+            throw new Error(`invalid status code: ${code}`)
+        }
+        return code
+    })
+}
+
+/**
+ * Parse the access config, e.g.
+ * `access: {callers: {prometheus: {token_env: TOKEN}}, rate_limit: {target: {requests: 10, period: 1m}}}`.
+ */
+function parseAccess(v: any): AccessConfig {
+    if (!isMapping(v)) {
+        throw new Error('must be a mapping with callers and/or rate_limit')
+    }
+    const unknownKeys = Object.keys(v).filter(key => key !== 'callers' && key !== 'rate_limit')
+    if (unknownKeys.length > 0) {
+        throw new Error(`unknown keys: ${unknownKeys.join(', ')}`)
+    }
+    return {
+        callers: v.callers === undefined ? undefined : parseCallers(v.callers),
+        rate_limit: v.rate_limit === undefined ? undefined : parseRateLimits(v.rate_limit),
+    }
+}
+
+function parseCallers(v: any): { [name: string]: CallerConfig } {
+    if (!isMapping(v) || Object.keys(v).length === 0) {
+        throw new Error('callers must be a non-empty mapping of callers by name')
+    }
+    const callers: { [name: string]: CallerConfig } = {}
+    for (let name of Object.keys(v)) {
+        const caller = v[name]
+        const keys = isMapping(caller) ? Object.keys(caller) : []
+        if (keys.length !== 1 || !callerKeys.includes(keys[0])) {
+            throw new Error(`caller ${name}: must have one of ${callerKeys.join(', ')}`)
+        }
+        callers[name] = {[keys[0]]: expectString(caller[keys[0]])}
+    }
+    return callers
+}
+
+const callerKeys = ['token', 'token_env', 'signing_key', 'signing_key_env']
+
+function parseRateLimits(v: any): RateLimitConfig {
+    if (!isMapping(v)) {
+        throw new Error('rate_limit must be a mapping with caller and/or target')
+    }
+    const unknownKeys = Object.keys(v).filter(key => !rateLimitScopes.includes(key as RateLimitScope))
+    if (unknownKeys.length > 0) {
+        throw new Error(`unknown rate_limit keys: ${unknownKeys.join(', ')}`)
+    }
+    const limits: { [scope in RateLimitScope]?: RateLimit } = {}
+    for (let scope of rateLimitScopes) {
+        if (v[scope] === undefined) {
+            continue
+        }
+        const limit = v[scope]
+        if (!isMapping(limit) || Object.keys(limit).some(key => key !== 'requests' && key !== 'period')) {
+            throw new Error(`rate_limit ${scope}: must be a mapping with requests and period`)
+        }
+        if (!Number.isInteger(limit.requests) || limit.requests <= 0) {
+            throw new Error(`rate_limit ${scope}: requests must be a positive integer`)
+        }
+        try {
+            limits[scope] = {requests: limit.requests, period: parseDuration(limit.period)}
+        } catch (e) {
+            throw new Error(`rate_limit ${scope}: period: ${e.message}`)
+        }
+    }
+    return limits
 }
 
-/**
- * Create an error Response.
- *
- * @param {string | Error} err the error instance or message to show in Response
- * @param {number} status HTTP status code to use in Response
- * @returns {Response} a Response for given error and status
- */
-function errorResponse(err: string | Error, status: number = 400): Response {
-    const msg = (err instanceof Error) ? err.message : err
-    return new Response(`error: ${msg}\n`, {status: status, statusText: 'Bad Request'})
-}
+const rateLimitScopes: Array<RateLimitScope> = ['caller', 'target']
 
 /**
- * Parse request params for module and target.
- * Return an Error if either 'module' or 'target' param is missing.
+ * Parse a duration in Prometheus format, e.g. '1m30s' or '500ms', or a number of seconds.
  *
- * @param {Request} r the request to parse
- * @return {[RequestParam , null] | [null , Error]}
+ * @param v
+ * @return {number} the duration in seconds
  */
-export function parseParams(r: Request): [RequestParam, null] | [null, Error] {
-    const url = new URL(r.url)
-    if (!url.searchParams.has('module')) {
-        return [null, new Error('module parameter is missing')]
-    }
-    if (!url.searchParams.has('target')) {
-        return [null, new Error('target parameter is missing')]
+export function parseDuration(v: any): number {
+    if (typeof v === 'number' && v > 0) {
+        return v
     }
-    const result = {
-        module: url.searchParams.get('module') || '',
-        target: url.searchParams.get('target') || ''
+    const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?(?:(\d+)ms)?$/.exec(typeof v === 'string' ? v : '')
+    const [hours, minutes, seconds, millis] = (match || []).slice(1).map(n => parseInt(n || '0'))
+    const duration = match === null ? 0 : hours * 3600 + minutes * 60 + seconds + millis / 1000
+    if (duration <= 0) {
+        throw new Error(`expected a positive duration like 5s or 1m30s but got: ${JSON.stringify(v)}`)
     }
-    return [result, null]
+    return duration
 }
 
-async function doProbe(config: HttpProbeConfig, target: string): Promise<Response> {
-    const probe = new HttpProbe(config)
-    const [req, err] = buildRequest(probe, target)
-    if (err !== null) {
-        return errorResponse(err)
+function parseBasicAuth(v: any): BasicAuthConfig {
+    if (!isMapping(v)) {
+        throw new Error('must be a mapping with username and password or password_env')
     }
-
-    // performance.now() is not available in CF workers
-    const before = Date.now()
-    const resp = await fetch(req!)
-    // Read the full response's body first to measure the total response time.
-    // We assume body to be text as we only care about text in (optional) validation step later,
-    // but other content type shouldn't affect this measurement.
-    const body = await resp.text()
-    const after = Date.now()
-
-    const success = await validateResponse(probe, resp, body)
-    const contentLength = parseInt(resp.headers.get('content-length') || '-1')
-    const probeResult = {
-        probe_success: success,
-        probe_duration_seconds: (after - before) / 1000,
-        probe_http_status_code: resp.status,
-        probe_http_redirected: resp.redirected,
-        probe_http_content_length: contentLength,
+    const unknownKeys = Object.keys(v).filter(key => !['username', 'password', 'password_env'].includes(key))
+    if (unknownKeys.length > 0) {
+        throw new Error(`unknown keys: ${unknownKeys.join(', ')}`)
+    }
+    if (v.password !== undefined && v.password_env !== undefined) {
+        throw new Error('at most one of password and password_env can be set')
+    }
+    return {
+        username: expectString(v.username),
+        password: v.password === undefined ? undefined : expectString(v.password),
+        password_env: v.password_env === undefined ? undefined : expectString(v.password_env),
     }
-    return buildResponse(probeResult)
 }
 
-/**
- * Build a probing request to send for given probe config and target.
- *
- * @param {HttpProbe} probe
- * @param {string} target
- * @return {[Request , null] | [null , Error]}
- */
-export function buildRequest(probe: HttpProbe, target: string): [Request, null] | [null, Error] {
-    if (probe.body !== '' && (probe.method === 'GET' || probe.method === 'HEAD')) {
-        return [null, new Error('body is not allowed for GET or HEAD request')]
+function parseHeaderMatch(v: any): HeaderMatchConfig {
+    if (!isMapping(v)) {
+        throw new Error('must be a list of mappings with header, regexp and optional allow_missing')
     }
-    const normTarget = target.toLowerCase()
-    if (!normTarget.startsWith('http://') && !normTarget.startsWith('https://')) {
-        return [null, new Error('target must start with either http:// or https://: ' + normTarget)]
+    const unknownKeys = Object.keys(v).filter(key => !['header', 'regexp', 'allow_missing'].includes(key))
+    if (unknownKeys.length > 0) {
+        throw new Error(`unknown keys: ${unknownKeys.join(', ')}`)
     }
-    if (probe.allowedTargets.length > 0) {
-        if (!probe.allowedTargets.some(isEqualOrMatched(normTarget))) {
-            return [null, new Error('target is not allowed in probe config: ' + normTarget)]
-        }
+    if (v.header === undefined || v.regexp === undefined) {
+        throw new Error('both header and regexp are required')
     }
+    return {
+        header: expectString(v.header),
+        regexp: parseRegExp(v.regexp),
+        allow_missing: v.allow_missing === undefined ? false : expectBoolean(v.allow_missing),
+    }
+}
 
-    const options: RequestInit = {
-        method: probe.method,
-        redirect: probe.noFollowRedirects ? 'manual' : 'follow'
+const jsonAssertionKeys = ['path', 'equals', 'exists', ...jsonComparisons]
+
+function parseJsonAssertion(v: any): JsonAssertionConfig {
+    if (!isMapping(v)) {
+        throw new Error('must be a list of mappings with path and equals, exists, lt, lte, gt or gte')
     }
-    if (Object.keys(probe.headers)) {
-        options.headers = new Headers(probe.headers)
+    const unknownKeys = Object.keys(v).filter(key => !jsonAssertionKeys.includes(key))
+    if (unknownKeys.length > 0) {
+        throw new Error(`unknown keys: ${unknownKeys.join(', ')}`)
     }
-    if (probe.body !== '') {
-        options.body = probe.body
+    const path = expectString(v.path)
+    parseJsonPath(path)
+    if (Object.keys(v).length === 1) {
+        throw new Error(`no check for path ${path}, expected equals, exists, lt, lte, gt or gte`)
+    }
+    if (v.exists !== undefined) {
+        expectBoolean(v.exists)
+    }
+    for (let op of jsonComparisons) {
+        if (v[op] !== undefined && typeof v[op] !== 'number') {
+            throw new Error(`${op} of path ${path} must be a number but got: ${JSON.stringify(v[op])}`)
+        }
     }
-    return [new Request(normTarget, options), null]
+    return {...v}
 }
 
 /**
- * Validate received response based on given probe config.
- *
- * @param {HttpProbe} probe
- * @param {Response} resp
- * @param {string | null} body optional body text in case it is already read from the response,
- *        otherwise will be read from response as `resp.text()`
- * @return {Promise<boolean>}
+ * Parse an allowed target: either a string, or a RegExp written `{regexp: pattern}` as YAML has no RegExp.
  */
-export async function validateResponse(probe: HttpProbe, resp: Response, body: string | null = null): Promise<boolean> {
-    const validStatus = validateResponseStatus(resp.status, probe.validStatusCodes)
-    if (!validStatus) {
-        return false
+function parseTargetPattern(v: any): string | RegExp {
+    if (isMapping(v) && Object.keys(v).length === 1 && v.hasOwnProperty('regexp')) {
+        return parseRegExp(v.regexp)
     }
+    if (typeof v !== 'string') {
+        throw new Error(`expected a string or a {regexp: pattern} mapping but got: ${JSON.stringify(v)}`)
+    }
+    return v
+}
 
-    if (body === null) {
-        body = await resp.text()
+function parseRegExp(v: any): RegExp {
+    try {
+        return new RegExp(expectString(v))
+    } catch (e) {
+        // SyntaxError message already contains the invalid pattern
+        throw new Error(e.message)
     }
-    return validateResponseBody(body, probe)
 }
 
-function validateResponseStatus(status: number, validStatus: Array<number> | HttpStatusCodeClass): boolean {
-    switch (validStatus) {
-        case HttpStatusCodeClass.Http_1xx:
-            if (status < 100 || status >= 200) {
-                return false
-            }
-            break
-        case HttpStatusCodeClass.Http_2xx:
-            if (status < 200 || status >= 300) {
-                return false
-            }
-            break
-        case HttpStatusCodeClass.Http_3xx:
-            if (status < 300 || status >= 400) {
-                return false
-            }
-            break
-        case HttpStatusCodeClass.Http_4xx:
-            if (status < 400 || status >= 500) {
-                return false
-            }
-            break
-        case HttpStatusCodeClass.Http_5xx:
-            if (status < 500 || status >= 600) {
-                return false
-            }
-            break
-        default:
-            if (!((validStatus as Array<number>).includes(status))) {
-                return false
-            }
+function expectString(v: any): string {
+    if (typeof v !== 'string') {
+        throw new Error(`expected a string but got: ${JSON.stringify(v)}`)
     }
-    return true
+    return v
 }
 
-function validateResponseBody(text: string, probe: HttpProbe): boolean {
-    for (let r of probe.failIfMatchesRegexp) {
-        if (r.test(text)) {
-            return false
-        }
+function expectBoolean(v: any): boolean {
+    if (typeof v !== 'boolean') {
+        throw new Error(`expected a boolean but got: ${JSON.stringify(v)}`)
     }
-    for (let r of probe.failIfNotMatchesRegexp) {
-        if (!r.test(text)) {
-            return false
-        }
+    return v
+}
+
+function expectArray(v: any): Array<any> {
+    if (!Array.isArray(v)) {
+        throw new Error(`expected a list but got: ${JSON.stringify(v)}`)
     }
-    return true
+    return v
 }
 
-/**
- * Build output response in Prometheus exposition format.
- *
- * @param {ProbeResult} r
- * @return {Response}
- */
-export function buildResponse(r: ProbeResult): Response {
-    const output = `probe_success ${r.probe_success ? 1 : 0}
-probe_duration_seconds ${r.probe_duration_seconds}
-probe_http_status_code ${r.probe_http_status_code}
-probe_http_redirected ${r.probe_http_redirected ? 1 : 0}
-probe_http_content_length ${r.probe_http_content_length}
-    `
-    return new Response(output)
+function isMapping(v: any): boolean {
+    return typeof v === 'object' && v !== null && !Array.isArray(v)
 }
 
-function isEqualOrMatched(s: string) {
-    return function (test: string | RegExp, index: number, array: Array<string | RegExp>): boolean {
-        return test instanceof RegExp ? test.test(s) : test === s
-    }
+function toRegExp(pattern: string | RegExp): RegExp {
+    return pattern instanceof RegExp ? pattern : new RegExp(pattern)
 }
 
 /**
@@ -258,48 +2412,315 @@ export interface HttpProbeConfig {
     // The body of the HTTP request the probe will send. Default: ''
     readonly body?: string
 
+    // Timeout of the probe in seconds, including reading the full response. Default: 10
+    readonly timeout?: number
+
     // Whether or not the probe will follow any redirects. Default: false
     readonly no_follow_redirects?: boolean
 
-    // Only allow probing of targets in this list. Default is empty, which means allow any target.
+    // Whether or not the probe will follow redirects, as named by newer blackbox-exporter versions. Default: true
+    readonly follow_redirects?: boolean
+
+    // Credentials for HTTP basic authentication. Default: none
+    readonly basic_auth?: BasicAuthConfig
+
+    // Token for HTTP bearer authentication. Default: none
+    readonly bearer_token?: string
+
+    // Name of the environment binding (e.g. a secret) holding the token for HTTP bearer authentication,
+    // instead of bearer_token. Default: none
+    readonly bearer_token_env?: string
+
+    // Only allow probing of targets in this list, equal to a string or matched by a RegExp, which is written
+    // `{regexp: pattern}` in a config document. Default is empty, which means allow any target.
     readonly allowed_targets?: Array<string | RegExp>
 
     //
     // Response validation
     //
 
-    // Accepted HTTP versions for this probe. Default to 2xx if not specified.
+    // Accepted HTTP versions for this probe. Default to 2xx if not specified or empty.
     readonly valid_status_codes?: Array<number> | HttpStatusCodeClass
 
-    // Probe fails if response body matches any regex. Default: []
-    readonly fail_if_matches_regexp?: Array<RegExp>
+    // Probe fails if the final response, after following redirects, is served over SSL. Default: false
+    readonly fail_if_ssl?: boolean
+
+    // Probe fails if the final response, after following redirects, is not served over SSL. Default: false
+    readonly fail_if_not_ssl?: boolean
+
+    // Probe fails if response body matches any regex, either as RegExp or pattern string. Default: []
+    readonly fail_if_matches_regexp?: Array<string | RegExp>
+
+    // Probe fails if response body does not matches any regex, either as RegExp or pattern string. Default: []
+    readonly fail_if_not_matches_regexp?: Array<string | RegExp>
+
+    // Probe fails if value of the header matches the regex, or if the header is missing unless allowed. Default: []
+    readonly fail_if_header_matches?: Array<HeaderMatchConfig>
+
+    // Probe fails if value of the header does not match the regex, or if the header is missing unless allowed.
+    // Default: []
+    readonly fail_if_header_not_matches?: Array<HeaderMatchConfig>
+
+    // Probe fails if any assertion on the JSON body fails, or if the body is not valid JSON. Default: []
+    readonly json_assertions?: Array<JsonAssertionConfig>
+
+    //
+    // Metrics
+    //
+
+    // JSON paths of numeric (or boolean) values of the body to export as probe_http_json_value gauges. Default: []
+    readonly json_gauges?: Array<string>
+}
+
+export interface BasicAuthConfig {
+    readonly username: string
+
+    // The password, or the name of the environment binding (e.g. a secret) holding it with password_env.
+    readonly password?: string
+    readonly password_env?: string
+}
+
+/**
+ * Assertion on the value at a JSON path of the body, e.g. `{path: db.lag, lt: 10}`. All checks given must pass.
+ */
+export interface JsonAssertionConfig {
+    // Path of the value, e.g. `status` or `$.replicas[0].lag`
+    readonly path: string
+
+    // The value equals this one, which can be any JSON value.
+    readonly equals?: any
+
+    // The value exists, or doesn't if false. A JSON null exists.
+    readonly exists?: boolean
+
+    // The value is a number less than / less than or equal / greater than / greater than or equal to this one.
+    readonly lt?: number
+    readonly lte?: number
+    readonly gt?: number
+    readonly gte?: number
+}
+
+type JsonComparison = 'lt' | 'lte' | 'gt' | 'gte'
+
+export interface HeaderMatchConfig {
+    // Name of the header to match, case-insensitive.
+    readonly header: string
+
+    // The regex to match header value against, either as RegExp or pattern string.
+    readonly regexp: string | RegExp
 
-    // Probe fails if response body does not matches any regex. Default: []
-    readonly fail_if_not_matches_regexp?: Array<RegExp>
+    // Whether or not the probe is still valid if the header is missing. Default: false
+    readonly allow_missing?: boolean
 }
 
 export class HttpProbe {
     readonly method: HttpMethod
     readonly headers: { [name: string]: string }
     readonly body: string
+    readonly timeout: number
     readonly noFollowRedirects: boolean
+    readonly basicAuth: BasicAuthConfig | null
+    readonly bearerToken: string
+    readonly bearerTokenEnv: string | undefined
     readonly allowedTargets: Array<string | RegExp>
     readonly validStatusCodes: Array<number> | HttpStatusCodeClass
+    readonly failIfSsl: boolean
+    readonly failIfNotSsl: boolean
     readonly failIfMatchesRegexp: Array<RegExp>
     readonly failIfNotMatchesRegexp: Array<RegExp>
+    readonly failIfHeaderMatches: Array<HeaderMatch>
+    readonly failIfHeaderNotMatches: Array<HeaderMatch>
+    readonly jsonAssertions: Array<JsonAssertionConfig>
+    readonly jsonGauges: Array<string>
 
     constructor(config: HttpProbeConfig) {
         this.method = config.method || 'GET'
         this.headers = config.headers || {}
         this.body = config.body || ''
-        this.noFollowRedirects = config.no_follow_redirects || false
+        this.timeout = config.timeout || 10
+        this.noFollowRedirects = config.no_follow_redirects || config.follow_redirects === false
+        this.basicAuth = config.basic_auth || null
+        this.bearerToken = config.bearer_token || ''
+        this.bearerTokenEnv = config.bearer_token_env
         this.allowedTargets = config.allowed_targets || []
-        this.validStatusCodes = config.valid_status_codes || HttpStatusCodeClass.Http_2xx
-        this.failIfMatchesRegexp = config.fail_if_matches_regexp || []
-        this.failIfNotMatchesRegexp = config.fail_if_not_matches_regexp || []
+        const validStatusCodes = config.valid_status_codes
+        // an empty list is the default too, as in blackbox-exporter's sample config
+        this.validStatusCodes = validStatusCodes === undefined || (Array.isArray(validStatusCodes) &&
+            validStatusCodes.length === 0) ? HttpStatusCodeClass.Http_2xx : validStatusCodes
+        this.failIfSsl = config.fail_if_ssl || false
+        this.failIfNotSsl = config.fail_if_not_ssl || false
+        this.failIfMatchesRegexp = (config.fail_if_matches_regexp || []).map(toRegExp)
+        this.failIfNotMatchesRegexp = (config.fail_if_not_matches_regexp || []).map(toRegExp)
+        this.failIfHeaderMatches = (config.fail_if_header_matches || []).map(toHeaderMatch)
+        this.failIfHeaderNotMatches = (config.fail_if_header_not_matches || []).map(toHeaderMatch)
+        this.jsonAssertions = config.json_assertions || []
+        this.jsonGauges = config.json_gauges || []
+    }
+
+    /**
+     * Effective options of the probe, using the same keys as @HttpProbeConfig.
+     * Secrets are redacted, but not the names of the environment bindings holding them.
+     */
+    toJSON(): object {
+        const validStatusCodes = Array.isArray(this.validStatusCodes)
+            ? this.validStatusCodes
+            : statusCodeClassName(this.validStatusCodes)
+        return {
+            method: this.method,
+            headers: redactHeaders(this.headers),
+            body: this.body,
+            timeout: this.timeout,
+            no_follow_redirects: this.noFollowRedirects,
+            basic_auth: this.basicAuth === null ? undefined : {
+                ...this.basicAuth,
+                password: this.basicAuth.password === undefined ? undefined : secretPlaceholder
+            },
+            bearer_token: this.bearerToken === '' ? undefined : secretPlaceholder,
+            bearer_token_env: this.bearerTokenEnv,
+            allowed_targets: this.allowedTargets.map(t => t instanceof RegExp ? {regexp: t.source} : t),
+            valid_status_codes: validStatusCodes,
+            fail_if_ssl: this.failIfSsl,
+            fail_if_not_ssl: this.failIfNotSsl,
+            fail_if_matches_regexp: this.failIfMatchesRegexp.map(r => r.source),
+            fail_if_not_matches_regexp: this.failIfNotMatchesRegexp.map(r => r.source),
+            fail_if_header_matches: this.failIfHeaderMatches.map(headerMatchJSON),
+            fail_if_header_not_matches: this.failIfHeaderNotMatches.map(headerMatchJSON),
+            json_assertions: this.jsonAssertions,
+            json_gauges: this.jsonGauges,
+        }
+    }
+}
+
+const secretPlaceholder = '<secret>'
+
+// Headers holding credentials, whose values are redacted from the debug output and the /config endpoint
+const sensitiveHeaders = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token']
+
+function redactHeaders(headers: { [name: string]: string }): { [name: string]: string } {
+    const redacted: { [name: string]: string } = {}
+    for (let name of Object.keys(headers)) {
+        redacted[name] = sensitiveHeaders.includes(name.toLowerCase()) ? secretPlaceholder : headers[name]
+    }
+    return redacted
+}
+
+export interface HeaderMatch {
+    readonly header: string
+    readonly regexp: RegExp
+    readonly allowMissing: boolean
+}
+
+function toHeaderMatch(config: HeaderMatchConfig): HeaderMatch {
+    return {
+        header: config.header,
+        regexp: toRegExp(config.regexp),
+        allowMissing: config.allow_missing || false,
+    }
+}
+
+function headerMatchJSON(m: HeaderMatch): object {
+    return {header: m.header, regexp: m.regexp.source, allow_missing: m.allowMissing}
+}
+
+export interface HttpScenarioConfig {
+    // Timeout of the whole scenario in seconds. Default: 10
+    readonly timeout?: number
+
+    // The steps of the scenario, run in order.
+    readonly steps: Array<ScenarioStepConfig>
+}
+
+export interface ScenarioStepConfig {
+    // Name of the step, unique in the scenario, used as label of its metrics.
+    readonly name: string
+
+    // URL of the step, which can be relative to the probe target. Default is the target itself.
+    // The URL, headers and body can use the values captured by previous steps as `${name}` placeholders.
+    readonly url?: string
+
+    // Request and validation options of the step. The timeout, if any, is ignored for the one of the scenario.
+    readonly http?: HttpProbeConfig
+
+    // Values to capture from the response of the step, by name. Default: {}
+    readonly capture?: { [name: string]: CaptureConfig }
+}
+
+/**
+ * Either a JSON path in the body, or the first group (or the whole match) of a regexp in the body or in a header,
+ * or the value of a header.
+ */
+export interface CaptureConfig {
+    readonly json?: string
+    readonly regexp?: string | RegExp
+    readonly header?: string
+}
+
+/**
+ * A module which probes a target with a sequence of requests, e.g. to log in then fetch a page as logged in user.
+ */
+export class HttpScenario {
+    readonly timeout: number
+    readonly steps: Array<ScenarioStep>
+
+    constructor(config: HttpScenarioConfig) {
+        this.timeout = config.timeout || 10
+        this.steps = config.steps.map(step => ({
+            name: step.name,
+            url: step.url === undefined ? null : step.url,
+            probe: new HttpProbe(step.http || {}),
+            captures: Object.keys(step.capture || {}).map(name => toCapture(name, step.capture![name])),
+        }))
+    }
+
+    /**
+     * Effective options of the scenario, in the same shape as the config document.
+     */
+    toJSON(): object {
+        return {
+            timeout: this.timeout,
+            scenario: this.steps.map(step => {
+                const capture: { [name: string]: object } = {}
+                for (let c of step.captures) {
+                    capture[c.name] = {
+                        json: c.json === null ? undefined : c.json,
+                        regexp: c.regexp === null ? undefined : c.regexp.source,
+                        header: c.header === null ? undefined : c.header,
+                    }
+                }
+                const {timeout, ...http} = step.probe.toJSON() as { [option: string]: any }
+                return {name: step.name, url: step.url === null ? undefined : step.url, http, capture}
+            }),
+        }
     }
 }
 
+export interface ScenarioStep {
+    readonly name: string
+    readonly url: string | null
+    readonly probe: HttpProbe
+    readonly captures: Array<Capture>
+}
+
+export interface Capture {
+    readonly name: string
+    readonly json: string | null
+    readonly regexp: RegExp | null
+    readonly header: string | null
+}
+
+function toCapture(name: string, config: CaptureConfig): Capture {
+    return {
+        name,
+        json: config.json === undefined ? null : config.json,
+        regexp: config.regexp === undefined ? null : toRegExp(config.regexp),
+        header: config.header === undefined ? null : config.header,
+    }
+}
+
+export type CapturedValues = { [name: string]: string }
+
+export type ProberModule = HttpProbe | HttpScenario
+
 export const enum HttpStatusCodeClass {
     Http_1xx,
     Http_2xx,
@@ -308,23 +2729,232 @@ export const enum HttpStatusCodeClass {
     Http_5xx
 }
 
+const statusCodeClasses: { [name: string]: HttpStatusCodeClass } = {
+    '1xx': HttpStatusCodeClass.Http_1xx,
+    '2xx': HttpStatusCodeClass.Http_2xx,
+    '3xx': HttpStatusCodeClass.Http_3xx,
+    '4xx': HttpStatusCodeClass.Http_4xx,
+    '5xx': HttpStatusCodeClass.Http_5xx,
+}
+
+function statusCodeClassName(c: HttpStatusCodeClass): string {
+    return Object.keys(statusCodeClasses).find(name => statusCodeClasses[name] === c)!
+}
+
 type HttpMethod = 'DELETE' | 'GET' | 'HEAD' | 'OPTIONS' | 'POST' | 'PUT'
 
-export interface RequestParam {
+export interface ProberConfig {
+    readonly modules: { [name: string]: ProberModule }
+
+    // Record the results of probes to summarize them, see @summaryResponse. Default: disabled
+    readonly history?: HistoryConfig
+
+    // Callers allowed to use the prober and rate limits. Default: anyone, without limits
+    readonly access?: AccessConfig
+}
+
+export interface AccessConfig {
+    // Callers by name, see @authenticate. Default: anyone is allowed
+    readonly callers?: { [name: string]: CallerConfig }
+    readonly rate_limit?: RateLimitConfig
+}
+
+/**
+ * A caller authenticates with a bearer token, or signs queries with a signing key. Either of them is given as is,
+ * or as the name of the environment binding (e.g. a secret) holding it with the `_env` option.
+ */
+export interface CallerConfig {
+    readonly token?: string
+    readonly token_env?: string
+    readonly signing_key?: string
+    readonly signing_key_env?: string
+}
+
+export interface RateLimitConfig {
+    // Requests of each caller, to any endpoint of the prober
+    readonly caller?: RateLimit
+    // Probes of each target host, by any caller
+    readonly target?: RateLimit
+}
+
+export interface RateLimit {
+    readonly requests: number
+    // in seconds
+    readonly period: number
+}
+
+export type RateLimitScope = 'caller' | 'target'
+
+export interface HistoryConfig {
+    // Windows of the summary, ending at the time of the request.
+    readonly windows: Array<HistoryWindow>
+}
+
+export interface HistoryWindow {
+    // Name of the window in the summary, as configured, e.g. '5m'
+    readonly name: string
+    readonly seconds: number
+}
+
+/**
+ * Store of the results of probes, by module and target.
+ */
+export interface ResultStore {
+    add(module: string, target: string, record: ProbeRecord): Promise<void>
+
+    // the results of each module and target since the given time, in milliseconds since epoch
+    query(since: number): Promise<Array<ResultSeries>>
+}
+
+export interface ResultSeries {
+    readonly module: string
+    readonly target: string
+    // in chronological order
+    readonly records: Array<ProbeRecord>
+}
+
+export interface ProbeRecord {
+    // in milliseconds since epoch
+    readonly time: number
+    readonly success: boolean
+    // in seconds
+    readonly duration: number
+    readonly failed_due_to: Array<FailureReason>
+}
+
+export interface TargetSummary {
+    readonly module: string
+    readonly target: string
+    readonly windows: { [window: string]: WindowSummary }
+}
+
+export interface WindowSummary {
+    readonly probes: number
+    // time span of the window covered by the recorded probes, which is shorter than the window if the older
+    // results were dropped, or if the target was first probed during the window
+    readonly covered_seconds: number
+    // null if there is no probe in the window
+    readonly availability_percent: number | null
+    readonly duration_seconds: { p50: number | null, p90: number | null, p99: number | null }
+    readonly last_failure: { time: string, failed_due_to: Array<FailureReason> } | null
+}
+
+/**
+ * A KV-like store to read the config document from, e.g. a Workers KV namespace.
+ */
+export interface ConfigStore {
+    get(key: string): Promise<string | null>
+}
+
+/**
+ * A function returning the config document text.
+ */
+export type ConfigSource = () => Promise<string>
+
+/**
+ * Environment bindings by name, of which only the variables and secrets, which are strings, are used.
+ */
+export type Env = { [name: string]: string | undefined }
+
+export interface ProbeTarget {
     module: string,
     target: string
 }
 
+export interface RequestParam {
+    module: string,
+    target: string,
+    debug: boolean
+}
+
 export interface ProbeResult {
     probe_success: boolean
     probe_duration_seconds?: number
     probe_http_status_code?: number
     probe_http_redirected?: boolean
+    probe_http_redirects?: number
+    probe_http_ssl?: boolean
+    probe_http_final_url?: string
     probe_http_content_length?: number
+    probe_http_uncompressed_body_length?: number
+    probe_http_duration_seconds?: PhaseDurations
+    // values of json_gauges, by path
+    probe_http_json_values?: { [path: string]: number }
+    probe_failed_due_to?: Array<FailureReason>
+}
+
+/**
+ * Result of a scenario, with the results of the steps that were run.
+ */
+export interface ScenarioResult extends ProbeResult {
+    steps: Array<StepResult>
+}
+
+export interface StepResult {
+    name: string
+    result: ProbeResult
+}
+
+/**
+ * Reasons why a probe can fail. 'invalid_target' is only reported in batch mode, a single probe of an invalid
+ * target is an error response instead. 'capture' is only reported by scenarios.
+ */
+export type FailureReason = 'invalid_target' | 'fetch_error' | 'timeout' | 'ssl' | 'status_code' | 'header_regex'
+    | 'body_regex' | 'invalid_json' | 'body_json' | 'capture'
+
+const failureReasons: Array<FailureReason> = [
+    'invalid_target', 'fetch_error', 'timeout', 'ssl', 'status_code', 'header_regex', 'body_regex', 'invalid_json',
+    'body_json', 'capture'
+]
+
+export interface ValidationStep {
+    reason: FailureReason
+    passed: boolean
+    // human-readable description of the check and its outcome
+    message: string
 }
 
-declare interface FetchEvent extends Event {
-    request: Request
+export interface ValidationResult {
+    success: boolean
+    steps: Array<ValidationStep>
+}
+
+/**
+ * The phases of a HTTP probe that can be measured from within a worker.
+ *
+ * Unlike blackbox-exporter, 'resolve', 'connect' and 'tls' phases are not observable from workers
+ * and are included in 'processing', i.e. the time until the response headers are received.
+ * 'transfer' is the time spent reading the response body.
+ */
+export type HttpPhase = 'processing' | 'transfer'
+
+export type PhaseDurations = {[phase in HttpPhase]: number}
+
+export const enum ExpositionFormat {
+    Prometheus,
+    OpenMetrics
+}
+
+export type MetricType = 'counter' | 'gauge' | 'untyped'
+
+export type Labels = { [name: string]: string }
+
+export interface Sample {
+    labels?: Labels
+    value: number
+}
+
+export interface Metric {
+    name: string
+    help: string
+    type: MetricType
+    samples: Array<Sample>
+}
+
+declare class TextEncoder {
+    encode(input: string): Uint8Array
+}
 
-    respondWith(r: Promise<Response> | Response): Promise<Response>
+declare class TextDecoder {
+    decode(input?: Uint8Array): string
 }
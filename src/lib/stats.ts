@@ -0,0 +1,18 @@
+/**
+ * Statistics helpers shared by the workers.
+ */
+
+/**
+ * @param {Array<number>} samples
+ * @param {number} p percentile, between 0 and 100
+ * @param {number} minSamples
+ * @return {number | null} the percentile of the samples, or null if there are less than `minSamples`
+ */
+export function percentile(samples: Array<number>, p: number, minSamples: number = 1): number | null {
+    if (samples.length === 0 || samples.length < minSamples) {
+        return null
+    }
+    const sorted = samples.slice().sort((a, b) => a - b)
+    const rank = Math.ceil(p / 100 * sorted.length) - 1
+    return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)]
+}
@@ -0,0 +1,52 @@
+/**
+ * Text helpers shared by the workers.
+ */
+
+/**
+ * Count the number of bytes of given string when encoded as UTF-8.
+ *
+ * @param {string} s
+ * @return {number}
+ */
+export function byteLength(s: string): number {
+    let length = 0
+    for (let i = 0; i < s.length; i++) {
+        const n = charByteLength(s.charCodeAt(i))
+        length += n
+        if (n === 4) {
+            // the low surrogate is counted with the high one
+            i++
+        }
+    }
+    return length
+}
+
+/**
+ * Cut a string at a size in bytes when encoded as UTF-8, without splitting a multi-byte character.
+ *
+ * @param {string} s
+ * @param {number} size in bytes
+ * @return {string} the longest prefix of s which is at most `size` bytes
+ */
+export function truncate(s: string, size: number): string {
+    let bytes = 0
+    for (let i = 0; i < s.length; i++) {
+        const n = charByteLength(s.charCodeAt(i))
+        if (bytes + n > size) {
+            return s.slice(0, i)
+        }
+        bytes += n
+        if (n === 4) {
+            i++
+        }
+    }
+    return s
+}
+
+/**
+ * Size in UTF-8 of the char with given UTF-16 code, where a high surrogate is encoded with the next (low
+ * surrogate) char in 4 bytes.
+ */
+function charByteLength(code: number): number {
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : (code >= 0xd800 && code < 0xdc00) ? 4 : 3
+}
@@ -0,0 +1,249 @@
+/**
+ * Runtime shared by the workers: wiring of fetch events, a path router and error responses.
+ *
+ * Modules in src/lib are not workers themselves, they are bundled into the script of each worker
+ * importing them by scripts/bundle.ts.
+ */
+
+/**
+ * Fetch event of Cloudflare Workers.
+ */
+export interface FetchEvent extends Event {
+    readonly request: Request
+
+    respondWith(r: Promise<Response> | Response): void
+
+    // extend the lifetime of the event to the given background task
+    waitUntil(p: Promise<any>): void
+}
+
+/**
+ * Respond to fetch events of the worker with the handler. An error thrown by the handler is returned
+ * as a 500 response.
+ *
+ * @param {(e: FetchEvent) => Promise<Response> | Response} handler
+ */
+export function listen(handler: (e: FetchEvent) => Promise<Response> | Response) {
+    if (typeof addEventListener !== 'function') {
+        // not running as a worker, e.g. imported by tests
+        return
+    }
+    addEventListener('fetch', (e: Event): void => {
+        // work around as strict typescript check doesn't allow e to be of type FetchEvent
+        const fe = e as FetchEvent
+        fe.respondWith(respond(handler, fe))
+    })
+}
+
+async function respond(handler: (e: FetchEvent) => Promise<Response> | Response, e: FetchEvent): Promise<Response> {
+    try {
+        return await handler(e)
+    } catch (err) {
+        console.error(`Failed to handle ${e.request.method} ${e.request.url}: ${err}`)
+        return errorResponse(err, 500)
+    }
+}
+
+/**
+ * Create an error Response.
+ *
+ * @param {string | Error} err the error instance or message to show in Response
+ * @param {number} status HTTP status code to use in Response
+ * @returns {Response} a Response for given error and status
+ */
+export function errorResponse(err: string | Error, status: number = 400): Response {
+    const msg = (err instanceof Error) ? err.message : err
+    return new Response(`error: ${msg}\n`, {status: status, statusText: statusTexts[status] || ''})
+}
+
+const statusTexts: { [status: number]: string } = {
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+}
+
+export type RouteParams = { [name: string]: string }
+
+export type RouteHandler<C> = (r: Request, params: RouteParams, context: C) => Promise<Response> | Response
+
+interface Route<C> {
+    // allowed methods, or null for any method
+    readonly methods: Array<string> | null
+    readonly pattern: RegExp
+    readonly names: Array<string>
+    readonly handler: RouteHandler<C>
+}
+
+/**
+ * Route requests to handlers by method and path. The first route matching the request is used.
+ *
+ * A path pattern is matched against the whole path of the request. In a pattern, `:name` matches a path segment
+ * and `*name` the rest of the path including slashes, which are given to the handler as params, as they are in
+ * the path. A bare `*` matches anything, e.g. `*\/config` matches any path ending with `/config`.
+ *
+ * The handlers are called with a context given to `handle()`, e.g. the fetch event or dependencies to use.
+ */
+export class Router<C = undefined> {
+    private readonly routes: Array<Route<C>> = []
+
+    get(pattern: string, handler: RouteHandler<C>): this {
+        return this.add(['GET', 'HEAD'], pattern, handler)
+    }
+
+    post(pattern: string, handler: RouteHandler<C>): this {
+        return this.add(['POST'], pattern, handler)
+    }
+
+    all(pattern: string, handler: RouteHandler<C>): this {
+        return this.add(null, pattern, handler)
+    }
+
+    add(methods: Array<string> | null, pattern: string, handler: RouteHandler<C>): this {
+        const [regexp, names] = compilePattern(pattern)
+        this.routes.push({methods, pattern: regexp, names, handler})
+        return this
+    }
+
+    /**
+     * @param {Request} r
+     * @param {C} context
+     * @return {Promise<Response>} the response of the matched route, or a 404 or 405 error response
+     */
+    async handle(r: Request, context: C): Promise<Response> {
+        const path = new URL(r.url).pathname
+        let pathMatched = false
+        for (let route of this.routes) {
+            const params = matchRoute(route, path)
+            if (params === null) {
+                continue
+            }
+            if (route.methods !== null && !route.methods.includes(r.method)) {
+                pathMatched = true
+                continue
+            }
+            return route.handler(r, params, context)
+        }
+        return pathMatched
+            ? errorResponse(`method ${r.method} is not allowed`, 405)
+            : errorResponse(`no route for ${path}`, 404)
+    }
+}
+
+/**
+ * Cancel reading the body of a response which is not needed, so that the connection can be released.
+ *
+ * @param {Response} resp
+ */
+export function discardBody(resp: Response) {
+    if (resp.body !== null && resp.body !== undefined) {
+        // the stream may already be errored, e.g. by an aborted request
+        resp.body.cancel().catch(() => undefined)
+    }
+}
+
+/**
+ * Whether a header of an incoming request is forwarded by a worker to the origin, i.e. unless it is specific to
+ * the connection to the worker or added by Cloudflare edge.
+ *
+ * @param {string} name
+ * @return {boolean}
+ */
+export function isForwardedHeader(name: string): boolean {
+    const normName = name.toLowerCase()
+    return !nonForwardedHeaders.includes(normName) && !normName.startsWith('cf-')
+}
+
+// Headers that are specific to the connection to the worker, or added by Cloudflare edge
+const nonForwardedHeaders = [
+    'connection', 'keep-alive', 'proxy-authorization', 'te', 'trailer', 'transfer-encoding', 'upgrade',
+    'host', 'x-forwarded-for', 'x-forwarded-proto', 'x-real-ip',
+]
+
+/**
+ * Call a function after a delay, like setTimeout.
+ *
+ * @param {() => void} callback
+ * @param {number} ms
+ * @return {number} the ID of the timer, to cancel it
+ */
+export function startTimer(callback: () => void, ms: number): number {
+    return setTimeout(callback, ms)
+}
+
+/**
+ * @param {number | undefined} id of a timer which was started by startTimer, or undefined to do nothing
+ */
+export function cancelTimer(id: number | undefined) {
+    clearTimeout(id)
+}
+
+/**
+ * @param {string} pattern
+ * @param {string} path
+ * @return {RouteParams | null} the params of the path if it matches the pattern, or null
+ */
+export function matchPath(pattern: string, path: string): RouteParams | null {
+    const [regexp, names] = compilePattern(pattern)
+    return matchRoute({pattern: regexp, names}, path)
+}
+
+function matchRoute(route: { pattern: RegExp, names: Array<string> }, path: string): RouteParams | null {
+    const match = route.pattern.exec(path)
+    if (match === null) {
+        return null
+    }
+    const params: RouteParams = {}
+    route.names.forEach((name, i) => params[name] = match[i + 1])
+    return params
+}
+
+function compilePattern(pattern: string): [RegExp, Array<string>] {
+    const names: Array<string> = []
+    const source = pattern.replace(/([:*])([A-Za-z_][A-Za-z0-9_]*)?|[.+?^${}()|[\]\\]/g, (token, kind, name) => {
+        if (kind === undefined) {
+            return '\\' + token
+        }
+        if (name === undefined) {
+            // a bare ':' is literal
+            return kind === '*' ? '.*' : ':'
+        }
+        names.push(name)
+        return kind === ':' ? '([^/]+)' : '(.*)'
+    })
+    return [new RegExp(`^${source}$`), names]
+}
+
+/*
+ * Parts of the fetch API of Cloudflare Workers which are not in TypeScript's typing.
+ */
+declare global {
+    interface Request {
+        // the body as a stream, to forward it without buffering
+        readonly body: ReadableStream | null
+        // metadata of an incoming request added by Cloudflare, e.g. colo and country
+        readonly cf?: object
+    }
+
+    interface Headers {
+        // all the values of a header which can't be joined into one value, i.e. Set-Cookie
+        getAll?(name: string): Array<string>
+    }
+
+    interface CacheStorage {
+        // Cloudflare's cache of the zone, which is only available to workers
+        readonly default?: Cache
+    }
+
+}
+
+// Timers of the Workers runtime, whose IDs are numbers, instead of the Timer objects of Node's typing
+declare function setTimeout(callback: () => void, ms: number): number
+
+declare function clearTimeout(id: number | undefined): void
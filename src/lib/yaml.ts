@@ -0,0 +1,394 @@
+/**
+ * Parsing of configuration documents in JSON or YAML, shared by the workers and the build script.
+ */
+
+/**
+ * Parse a configuration document in either JSON or YAML.
+ *
+ * Only the subset of YAML used by typical blackbox-exporter configs is supported: block mappings and sequences,
+ * flow sequences and mappings, plain and quoted scalars, literal (|) and folded (>) block scalars and comments.
+ * Anchors, tags and multiple documents are not supported. Throw an Error on invalid or unsupported document.
+ *
+ * @param {string} text
+ * @return {any} the parsed document
+ */
+export function parseDocument(text: string): any {
+    const trimmed = text.trim()
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        return JSON.parse(trimmed)
+    }
+    return new YamlParser(text).parse()
+}
+
+interface YamlLine {
+    // line number, for error messages
+    readonly number: number
+    readonly raw: string
+    readonly indent: number
+    // the line without indentation and comment
+    readonly content: string
+}
+
+class YamlParser {
+    private readonly lines: Array<YamlLine>
+    private pos = 0
+
+    constructor(text: string) {
+        this.lines = text.split(/\r?\n/).map((raw, i) => {
+            const indent = raw.search(/\S|$/)
+            const content = stripComment(raw.slice(indent))
+            if (content !== '' && raw.slice(0, indent).includes('\t')) {
+                throw new Error(`line ${i + 1}: tabs are not allowed for indentation`)
+            }
+            return {number: i + 1, raw, indent, content}
+        })
+    }
+
+    parse(): any {
+        this.skipBlank()
+        if (!this.atEnd() && this.current().content === '---') {
+            this.pos++
+            this.skipBlank()
+        }
+        if (this.atEnd()) {
+            return null
+        }
+        const value = this.parseBlock(this.current().indent)
+        this.skipBlank()
+        if (!this.atEnd() && this.current().content !== '...') {
+            throw this.error('unexpected content, check the indentation')
+        }
+        return value
+    }
+
+    private parseBlock(indent: number): any {
+        const line = this.current()
+        if (isSequenceItem(line.content)) {
+            return this.parseSequence(indent)
+        }
+        if (findMappingColon(line.content) >= 0) {
+            return this.parseMapping(indent)
+        }
+        this.pos++
+        return this.parseScalar(line.content, line)
+    }
+
+    private parseMapping(indent: number): { [key: string]: any } {
+        const result: { [key: string]: any } = {}
+        for (this.skipBlank(); !this.atEnd(); this.skipBlank()) {
+            const line = this.current()
+            if (line.indent < indent || (line.indent === indent && isSequenceItem(line.content))) {
+                break
+            }
+            if (line.indent > indent) {
+                throw this.error('unexpected indentation')
+            }
+            const colon = findMappingColon(line.content)
+            if (colon < 0) {
+                throw this.error('expected a "key: value" mapping entry')
+            }
+            const key = String(this.parseScalar(line.content.slice(0, colon).trim(), line))
+            if (result.hasOwnProperty(key)) {
+                throw this.error(`duplicate key: ${key}`)
+            }
+            this.pos++
+            result[key] = this.parseValue(line.content.slice(colon + 1).trim(), indent, true)
+        }
+        return result
+    }
+
+    private parseSequence(indent: number): Array<any> {
+        const result: Array<any> = []
+        for (this.skipBlank(); !this.atEnd(); this.skipBlank()) {
+            const line = this.current()
+            if (line.indent < indent || (line.indent === indent && !isSequenceItem(line.content))) {
+                break
+            }
+            if (line.indent > indent) {
+                throw this.error('unexpected indentation')
+            }
+            const item = line.content.slice(1).trim()
+            if (item !== '' && !/^[\[{"']/.test(item) && (isSequenceItem(item) || findMappingColon(item) >= 0)) {
+                // compact nested collection, e.g. "- key: value", parse it as if it starts on its own line
+                const itemIndent = line.indent + line.content.indexOf(item, 1)
+                this.lines[this.pos] = {number: line.number, raw: line.raw, indent: itemIndent, content: item}
+                result.push(this.parseBlock(itemIndent))
+            } else {
+                this.pos++
+                result.push(this.parseValue(item, indent, false))
+            }
+        }
+        return result
+    }
+
+    /**
+     * Parse the value of a mapping entry or sequence item, which is either given inline
+     * or as a nested block on the following lines.
+     */
+    private parseValue(inline: string, indent: number, inMapping: boolean): any {
+        const line = this.lines[this.pos - 1]
+        if (/^[|>][-+]?$/.test(inline)) {
+            return this.parseBlockScalar(inline, indent)
+        }
+        if (inline !== '') {
+            return this.parseScalar(inline, line)
+        }
+        this.skipBlank()
+        if (this.atEnd()) {
+            return null
+        }
+        const next = this.current()
+        // a sequence of a mapping entry can be at the same indentation as the key
+        if (next.indent > indent || (inMapping && next.indent === indent && isSequenceItem(next.content))) {
+            return this.parseBlock(next.indent)
+        }
+        return null
+    }
+
+    private parseBlockScalar(header: string, indent: number): string {
+        const lines: Array<string> = []
+        let blockIndent = -1
+        for (; !this.atEnd(); this.pos++) {
+            const raw = this.current().raw
+            if (raw.trim() === '') {
+                lines.push('')
+                continue
+            }
+            const lineIndent = raw.search(/\S/)
+            if (lineIndent <= indent || (blockIndent >= 0 && lineIndent < blockIndent)) {
+                break
+            }
+            if (blockIndent < 0) {
+                blockIndent = lineIndent
+            }
+            lines.push(raw.slice(blockIndent))
+        }
+        while (lines.length > 0 && lines[lines.length - 1] === '') {
+            lines.pop()
+        }
+
+        let text: string
+        if (header.startsWith('>')) {
+            // folded: single line breaks become spaces, empty lines become line breaks
+            text = lines.reduce((acc, l, i) => {
+                if (i === 0) {
+                    return l
+                }
+                return (l === '' || acc.endsWith('\n')) ? acc + '\n' + l : acc + ' ' + l
+            }, '')
+        } else {
+            text = lines.join('\n')
+        }
+        return (header.endsWith('-') || text === '') ? text : text + '\n'
+    }
+
+    private parseScalar(text: string, line: YamlLine): any {
+        try {
+            return parseFlowValue(text)
+        } catch (e) {
+            throw new Error(`line ${line.number}: ${e.message}`)
+        }
+    }
+
+    private skipBlank() {
+        while (!this.atEnd() && this.current().content === '') {
+            this.pos++
+        }
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.lines.length
+    }
+
+    private current(): YamlLine {
+        return this.lines[this.pos]
+    }
+
+    private error(msg: string): Error {
+        return new Error(`line ${this.current().number}: ${msg}`)
+    }
+}
+
+function isSequenceItem(content: string): boolean {
+    return content === '-' || content.startsWith('- ')
+}
+
+/**
+ * Find the index of the colon separating key and value of a mapping entry, or -1 if it is not a mapping entry.
+ */
+function findMappingColon(content: string): number {
+    let quote = ''
+    let depth = 0
+    for (let i = 0; i < content.length; i++) {
+        const c = content[i]
+        if (quote !== '') {
+            if (c === '\\' && quote === '"') {
+                i++
+            } else if (c === quote) {
+                quote = ''
+            }
+        } else if (c === '"' || c === '\'') {
+            quote = c
+        } else if (c === '[' || c === '{') {
+            depth++
+        } else if (c === ']' || c === '}') {
+            depth--
+        } else if (c === ':' && depth === 0 && (i + 1 === content.length || content[i + 1] === ' ')) {
+            return i
+        }
+    }
+    return -1
+}
+
+/**
+ * Remove trailing comment from a line, i.e. a '#' outside of quotes that starts the line or follows a space.
+ */
+function stripComment(line: string): string {
+    let quote = ''
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i]
+        if (quote !== '') {
+            if (c === '\\' && quote === '"') {
+                i++
+            } else if (c === quote) {
+                quote = ''
+            }
+        } else if (c === '"' || c === '\'') {
+            quote = c
+        } else if (c === '#' && (i === 0 || line[i - 1] === ' ' || line[i - 1] === '\t')) {
+            return line.slice(0, i).replace(/\s+$/, '')
+        }
+    }
+    return line.replace(/\s+$/, '')
+}
+
+/**
+ * Parse an inline YAML value: a plain or quoted scalar, or a flow sequence / mapping.
+ */
+function parseFlowValue(text: string): any {
+    let pos = 0
+
+    const skipSpaces = () => {
+        while (pos < text.length && text[pos] === ' ') {
+            pos++
+        }
+    }
+
+    const parseQuoted = (): string => {
+        const quote = text[pos]
+        let end = pos + 1
+        while (end < text.length) {
+            if (quote === '"' && text[end] === '\\') {
+                end += 2
+            } else if (text[end] === quote && quote === '\'' && text[end + 1] === '\'') {
+                end += 2
+            } else if (text[end] === quote) {
+                break
+            } else {
+                end++
+            }
+        }
+        if (end >= text.length) {
+            throw new Error(`unterminated quoted string: ${text.slice(pos)}`)
+        }
+        const quoted = text.slice(pos, end + 1)
+        pos = end + 1
+        if (quote === '\'') {
+            return quoted.slice(1, -1).replace(/''/g, '\'')
+        }
+        try {
+            return JSON.parse(quoted)
+        } catch (e) {
+            throw new Error(`invalid double-quoted string: ${quoted}`)
+        }
+    }
+
+    const parsePlain = (inFlow: boolean): any => {
+        const start = pos
+        while (pos < text.length) {
+            const c = text[pos]
+            if (inFlow && (c === ',' || c === ']' || c === '}')) {
+                break
+            }
+            if (inFlow && c === ':' && (text[pos + 1] === ' ' || text[pos + 1] === ',' || text[pos + 1] === '}')) {
+                break
+            }
+            pos++
+        }
+        return plainScalar(text.slice(start, pos).trim())
+    }
+
+    const parseValue = (inFlow: boolean): any => {
+        skipSpaces()
+        const c = text[pos]
+        if (c === '[') {
+            pos++
+            const items: Array<any> = []
+            for (skipSpaces(); text[pos] !== ']'; skipSpaces()) {
+                items.push(parseValue(true))
+                skipSpaces()
+                if (text[pos] === ',') {
+                    pos++
+                } else if (text[pos] !== ']') {
+                    throw new Error(`expected , or ] in flow sequence: ${text}`)
+                }
+            }
+            pos++
+            return items
+        }
+        if (c === '{') {
+            pos++
+            const mapping: { [key: string]: any } = {}
+            for (skipSpaces(); text[pos] !== '}'; skipSpaces()) {
+                const key = String(parseValue(true))
+                skipSpaces()
+                if (text[pos] !== ':') {
+                    throw new Error(`expected : in flow mapping: ${text}`)
+                }
+                pos++
+                mapping[key] = parseValue(true)
+                skipSpaces()
+                if (text[pos] === ',') {
+                    pos++
+                } else if (text[pos] !== '}') {
+                    throw new Error(`expected , or } in flow mapping: ${text}`)
+                }
+            }
+            pos++
+            return mapping
+        }
+        if (c === '"' || c === '\'') {
+            return parseQuoted()
+        }
+        if (pos >= text.length) {
+            throw new Error(`unexpected end of value: ${text}`)
+        }
+        return parsePlain(inFlow)
+    }
+
+    const value = parseValue(false)
+    skipSpaces()
+    if (pos < text.length) {
+        throw new Error(`unexpected trailing characters: ${text.slice(pos)}`)
+    }
+    return value
+}
+
+function plainScalar(text: string): any {
+    if (/^(~|null|Null|NULL)?$/.test(text)) {
+        return null
+    }
+    if (/^(true|True|TRUE)$/.test(text)) {
+        return true
+    }
+    if (/^(false|False|FALSE)$/.test(text)) {
+        return false
+    }
+    if (/^[-+]?[0-9]+$/.test(text)) {
+        return parseInt(text, 10)
+    }
+    if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+        return parseFloat(text)
+    }
+    return text
+}
@@ -2,34 +2,741 @@
  * HTTP Proxy to arbitrary URL with Cloudflare Worker.
  */
 
+import {errorResponse, FetchEvent, isForwardedHeader, listen, matchPath} from './lib/worker'
+
+/**
+ * Proxy configuration, see @ProxyConfig interface below for supported options.
+ * It is replaced by the configuration of the environment when built by scripts/build.ts.
+ */
+const config: ProxyConfig = {
+    allowed_hosts: ['github.com', /^([a-z0-9-]+\.)*githubusercontent\.com$/, /^([a-z0-9-]+\.)*githubassets\.com$/],
+    rewrite: true,
+    request_headers: {
+        remove: ['cookie']
+    },
+    response_headers: {
+        add: {'X-Proxied-By': 'cloudflare-workers'},
+        remove: ['set-cookie']
+    },
+    cache: {
+        ttls: [
+            {host: /^([a-z0-9-]+\.)*githubassets\.com$/, ttl: 86400},
+            {host: /^([a-z0-9-]+\.)*githubusercontent\.com$/, ttl: 300},
+        ],
+        stale_while_revalidate: 60,
+        vary_headers: ['accept-encoding'],
+    }
+}
+
 /**
  * Cloudflare Worker entrypoint
  */
-if (typeof addEventListener === 'function') {
-    addEventListener('fetch', (e: Event): void => {
-        // work around as strict typescript check doesn't allow e to be of type FetchEvent
-        const fe = e as FetchEvent
-        fe.respondWith(proxyRequest(fe.request))
-    });
+listen(proxyRequest)
+
+async function proxyRequest(e: FetchEvent): Promise<Response> {
+    const r = e.request
+    const targetUrl = parseTargetUrl(r)
+    if (targetUrl === null) {
+        return errorResponse(`not a proxy URL, expected ${prefix}<target URL>`)
+    }
+    const host = new URL(targetUrl).hostname
+    if (!isAllowedHost(host, config.allowed_hosts || [])) {
+        return errorResponse(`host is not allowed: ${host}`, 403)
+    }
+    const upstream = async () => {
+        const resp = await fetchTarget(buildProxyRequest(r, targetUrl, config), config)
+        return buildProxyResponse(resp, config, targetUrl)
+    }
+    if (config.cache === undefined) {
+        return upstream()
+    }
+    const cache = new ProxyCache(defaultResponseCache(), config.cache)
+    return cache.fetch(r.method, targetUrl, proxyRequestHeaders(r, config), upstream, p => e.waitUntil(p))
 }
 
-async function proxyRequest(r: Request): Promise<Response> {
+let memoryCache: MemoryCache | undefined
+
+function defaultResponseCache(): ResponseCache {
+    if (typeof caches !== 'undefined' && caches.default !== undefined) {
+        return caches.default
+    }
+    if (memoryCache === undefined) {
+        memoryCache = new MemoryCache()
+    }
+    return memoryCache
+}
+
+const prefix = '/worker/proxy/'
+
+/**
+ * Get the URL to proxy to from request path, e.g. '/worker/proxy/github.com/lebinh?tab=repositories'
+ * is proxied to 'https://github.com/lebinh?tab=repositories' if the request itself is https.
+ *
+ * @param {Request} r
+ * @return {string | null} the target URL, or null if the request is not for the proxy
+ */
+export function parseTargetUrl(r: Request): string | null {
     const url = new URL(r.url)
-    const prefix = '/worker/proxy/'
-    if (url.pathname.startsWith(prefix)) {
-        const remainingUrl = url.pathname.replace(new RegExp('^' + prefix), '')
-        let targetUrl = decodeURIComponent(remainingUrl)
-        if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-            targetUrl = url.protocol + '//' + targetUrl
-        }
-        return fetch(targetUrl)
+    const params = matchPath(prefix + '*target', url.pathname)
+    if (params === null) {
+        return null
+    }
+    let targetUrl = decodeURIComponent(params.target)
+    if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
+        targetUrl = url.protocol + '//' + targetUrl
+    }
+    return targetUrl + url.search
+}
+
+/**
+ * Check if host is in the allowed hosts, either equal to a string or matched by a RegExp.
+ *
+ * @param {string} host
+ * @param {Array<string | RegExp>} allowedHosts
+ * @return {boolean}
+ */
+export function isAllowedHost(host: string, allowedHosts: Array<string | RegExp>): boolean {
+    const normHost = host.toLowerCase()
+    return allowedHosts.some(test => test instanceof RegExp ? test.test(normHost) : test.toLowerCase() === normHost)
+}
+
+/**
+ * Build the request to send to target URL, forwarding method, body and headers of the original request.
+ *
+ * @param {Request} r the original request
+ * @param {string} targetUrl
+ * @param {ProxyConfig} config
+ * @return {Request}
+ */
+export function buildProxyRequest(r: Request, targetUrl: string, config: ProxyConfig): Request {
+    const options: RequestInit = {
+        method: r.method,
+        headers: proxyRequestHeaders(r, config),
+        // redirects could lead to any host, they are followed by fetchTarget only to the allowed hosts
+        redirect: 'manual',
+    }
+    if (r.method !== 'GET' && r.method !== 'HEAD') {
+        // forward the body as a stream, which the RequestInit of TypeScript's typing doesn't allow yet
+        Object.assign(options, {body: r.body})
+    }
+    return new Request(targetUrl, options)
+}
+
+/**
+ * Send the request to the target. When rewriting, redirects are sent back to the client so that relative links
+ * are resolved correctly, otherwise redirects to the allowed hosts are followed as fetch would do. A redirect
+ * to another host, or which would have to send the request body again, is returned to the client as is.
+ *
+ * @param {Request} request built by @buildProxyRequest
+ * @param {ProxyConfig} config
+ * @param fetcher
+ * @return {Promise<Response>}
+ */
+export async function fetchTarget(request: Request, config: ProxyConfig,
+                                  fetcher: (r: Request) => Promise<Response> = fetch): Promise<Response> {
+    let resp = await fetcher(request)
+    for (let i = 0; !config.rewrite && i < maxRedirects; i++) {
+        const next = redirectRequest(request, resp, config.allowed_hosts || [])
+        if (next === null) {
+            break
+        }
+        request = next
+        resp = await fetcher(request)
+    }
+    return resp
+}
+
+const maxRedirects = 20
+
+/**
+ * Build the request following a redirect response, or return null if the redirect must not be followed.
+ */
+function redirectRequest(request: Request, resp: Response, allowedHosts: Array<string | RegExp>): Request | null {
+    const location = resp.headers.get('location')
+    if (![301, 302, 303, 307, 308].includes(resp.status) || location === null) {
+        return null
+    }
+    let url: URL
+    try {
+        url = new URL(location, request.url)
+    } catch (e) {
+        return null
+    }
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !isAllowedHost(url.hostname, allowedHosts)) {
+        return null
+    }
+    if (request.method === 'GET' || request.method === 'HEAD') {
+        return new Request(url.toString(), {method: request.method, headers: request.headers, redirect: 'manual'})
+    }
+    if (resp.status === 307 || resp.status === 308) {
+        // the body stream was already sent
+        return null
+    }
+    // other redirects of a request with a body are followed with a GET, as fetch does
+    const headers = new Headers(request.headers)
+    headers.delete('content-type')
+    headers.delete('content-length')
+    return new Request(url.toString(), {method: 'GET', headers, redirect: 'manual'})
+}
+
+/**
+ * Build the response to return from the target's response, with the response header rules applied.
+ * In rewrite mode, URLs in headers and HTML / CSS body are also rewritten to go through the proxy.
+ *
+ * @param {Response} resp the response from target
+ * @param {ProxyConfig} config
+ * @param {string} targetUrl the URL of the response, to resolve relative URLs against
+ * @return {Response}
+ */
+export function buildProxyResponse(resp: Response, config: ProxyConfig, targetUrl: string): Response {
+    const headers = new Headers(resp.headers)
+    let body = resp.body
+    if (config.rewrite) {
+        const allowedHosts = config.allowed_hosts || []
+        rewriteResponseHeaders(headers, targetUrl, allowedHosts)
+        const rewriter = bodyRewriter(headers.get('content-type'), targetUrl, allowedHosts)
+        if (rewriter !== null && body !== null && body !== undefined) {
+            body = rewriteBody(body, rewriter)
+            headers.delete('content-length')
+        }
+    }
+    rewriteHeaders(headers, config.response_headers || {})
+    return new Response(body, {status: resp.status, statusText: resp.statusText, headers})
+}
+
+/**
+ * Rewrite an URL to go through the proxy, if it is absolute, protocol-relative or root-relative
+ * and to an allowed host. Other URLs are returned as is, as relative URLs already work.
+ * Only a prefix is added to the URL, so it is safe to use for URLs with HTML entities.
+ *
+ * @param {string} url
+ * @param {string} base the URL of the document containing the url
+ * @param {Array<string | RegExp>} allowedHosts
+ * @return {string}
+ */
+export function rewriteUrl(url: string, base: string, allowedHosts: Array<string | RegExp>): string {
+    const baseUrl = new URL(base)
+    let absoluteUrl: string
+    if (/^https?:\/\//i.test(url)) {
+        absoluteUrl = url
+    } else if (url.startsWith('//')) {
+        absoluteUrl = baseUrl.protocol + url
+    } else if (url.startsWith('/')) {
+        absoluteUrl = baseUrl.origin + url
     } else {
-        return new Response('Bad Request', {status: 400, statusText: 'Bad Request'})
+        return url
+    }
+    let host: string
+    try {
+        host = new URL(absoluteUrl).hostname
+    } catch (e) {
+        return url
     }
+    return isAllowedHost(host, allowedHosts) ? prefix + absoluteUrl : url
+}
+
+/**
+ * Rewrite URLs in HTML attributes, and in CSS of inline styles.
+ *
+ * @param {string} html
+ * @param {string} base
+ * @param {Array<string | RegExp>} allowedHosts
+ * @return {string}
+ */
+export function rewriteHtml(html: string, base: string, allowedHosts: Array<string | RegExp>): string {
+    const rewritten = html.replace(htmlUrlAttribute, (match, attr: string, value: string) => {
+        const quote = (value[0] === '"' || value[0] === '\'') ? value[0] : ''
+        const url = value.slice(quote.length, value.length - quote.length)
+        const newUrl = attr.trim().toLowerCase().startsWith('srcset')
+            ? url.replace(/(^|,)(\s*)([^\s,]+)/g, (m, sep, space, u) => sep + space + rewriteUrl(u, base, allowedHosts))
+            : rewriteUrl(url, base, allowedHosts)
+        return attr + quote + newUrl + quote
+    })
+    return rewriteCss(rewritten, base, allowedHosts)
+}
+
+const htmlUrlAttribute = /(\s(?:href|src|srcset|action|formaction|poster)\s*=\s*)("[^"]*"|'[^']*'|[^\s>"']+)/gi
+
+/**
+ * Rewrite URLs in url() and @import of CSS.
+ *
+ * @param {string} css
+ * @param {string} base
+ * @param {Array<string | RegExp>} allowedHosts
+ * @return {string}
+ */
+export function rewriteCss(css: string, base: string, allowedHosts: Array<string | RegExp>): string {
+    return css.replace(cssUrl, (match, start: string, quote: string, url: string, end: string) => {
+        return start + quote + rewriteUrl(url, base, allowedHosts) + end
+    })
+}
+
+const cssUrl = /(url\(\s*|@import\s+(?!url\())(["']?)([^"')\s]+)(\2)/gi
+
+/**
+ * Rewrite URL headers of the response to go through the proxy, and remove or adjust headers
+ * that would break the proxied site.
+ *
+ * @param {Headers} headers
+ * @param {string} base the URL of the response
+ * @param {Array<string | RegExp>} allowedHosts
+ */
+export function rewriteResponseHeaders(headers: Headers, base: string, allowedHosts: Array<string | RegExp>) {
+    for (let name of ['location', 'content-location']) {
+        const value = headers.get(name)
+        if (value === null) {
+            continue
+        }
+        try {
+            // relative URLs are resolved against the target, so that they are rewritten as well
+            headers.set(name, rewriteUrl(new URL(value, base).toString(), base, allowedHosts))
+        } catch (e) {
+            // a malformed URL is passed through as is
+        }
+    }
+    // the proxied resources are served from the proxy's origin, which the policy of the target doesn't allow
+    headers.delete('content-security-policy')
+    headers.delete('content-security-policy-report-only')
+
+    const cookies = getAllHeaderValues(headers, 'set-cookie')
+    headers.delete('set-cookie')
+    for (let cookie of cookies) {
+        headers.append('set-cookie', rewriteSetCookie(cookie, base))
+    }
+}
+
+/**
+ * Make a cookie set by the target valid for the proxy: its Domain is removed, so that it is for the proxy's host,
+ * and its Path is prefixed with the proxied origin.
+ *
+ * @param {string} cookie value of a Set-Cookie header
+ * @param {string} base the URL of the response
+ * @return {string}
+ */
+export function rewriteSetCookie(cookie: string, base: string): string {
+    const origin = new URL(base).origin
+    return cookie.split(';')
+        .map(attr => attr.trim())
+        .filter(attr => !/^domain\s*=/i.test(attr))
+        .map(attr => /^path\s*=/i.test(attr) ? `Path=${prefix}${origin}${attr.replace(/^path\s*=\s*/i, '')}` : attr)
+        .join('; ')
 }
 
-interface FetchEvent extends Event {
-    request: Request;
+function getAllHeaderValues(headers: Headers, name: string): Array<string> {
+    // Set-Cookie values can't be joined into one value, so Cloudflare Workers has a non-standard getAll() for it
+    if (headers.getAll !== undefined) {
+        return headers.getAll(name)
+    }
+    const value = headers.get(name)
+    return value === null ? [] : [value]
+}
+
+/**
+ * Choose the rewriter of the response body, based on its content type.
+ * Return null if the body should not be rewritten.
+ */
+function bodyRewriter(contentType: string | null, base: string,
+                      allowedHosts: Array<string | RegExp>): ChunkRewriter | null {
+    const [mimeType, ...params] = (contentType || '').toLowerCase().split(';').map(p => p.trim())
+    const charset = params.find(p => p.startsWith('charset='))
+    // body is decoded and encoded as UTF-8 for rewriting
+    if (charset !== undefined && !/^charset="?utf-?8"?$/.test(charset)) {
+        return null
+    }
+    if (mimeType === 'text/html') {
+        return new ChunkRewriter(text => rewriteHtml(text, base, allowedHosts), lastHtmlBoundary)
+    }
+    if (mimeType === 'text/css') {
+        return new ChunkRewriter(text => rewriteCss(text, base, allowedHosts), lastCssBoundary)
+    }
+    return null
+}
+
+/**
+ * Rewrite a text body chunk by chunk as it is received, instead of buffering the whole body.
+ */
+function rewriteBody(body: ReadableStream, rewriter: ChunkRewriter): ReadableStream {
+    const {readable, writable} = new TransformStream()
+    pipeRewritten(body.getReader(), writable.getWriter(), rewriter)
+    return readable
+}
+
+async function pipeRewritten(reader: ReadableStreamReader, writer: StreamWriter, rewriter: ChunkRewriter) {
+    const decoder = new TextDecoder()
+    const encoder = new TextEncoder()
+    try {
+        while (true) {
+            const {done, value} = await reader.read()
+            if (done) {
+                break
+            }
+            await writer.write(encoder.encode(rewriter.push(decoder.decode(value, {stream: true}))))
+        }
+        await writer.write(encoder.encode(rewriter.push(decoder.decode()) + rewriter.flush()))
+        await writer.close()
+    } catch (e) {
+        try {
+            await writer.abort(e)
+        } catch (abortErr) {
+            // the stream is already errored, e.g. the client went away, nothing more to do
+        }
+    }
+}
+
+/**
+ * Apply a text rewriting function to chunks of a text stream.
+ *
+ * As an URL could be split between two chunks, the text after the last boundary of a chunk, given by the
+ * `boundary` function, is held back and rewritten together with the next chunk.
+ */
+export class ChunkRewriter {
+    private pending = ''
+
+    constructor(private readonly rewrite: (text: string) => string,
+                private readonly boundary: (text: string) => number,
+                private readonly maxPending: number = 64 * 1024) {
+    }
+
+    push(chunk: string): string {
+        const text = this.pending + chunk
+        let cut = this.boundary(text)
+        if (text.length - cut - 1 > this.maxPending) {
+            // no boundary in a long text, give up holding it back
+            cut = text.length - 1
+        }
+        this.pending = text.slice(cut + 1)
+        return this.rewrite(text.slice(0, cut + 1))
+    }
+
+    flush(): string {
+        const text = this.pending
+        this.pending = ''
+        return this.rewrite(text)
+    }
+}
+
+/**
+ * Index of the last '>' closing a tag or a comment of an HTML text, or -1 if there is none. Other characters,
+ * like ';' of an entity in an attribute value, could be in the middle of an URL.
+ *
+ * @param {string} html
+ * @return {number}
+ */
+export function lastHtmlBoundary(html: string): number {
+    let cut = -1
+    let inTag = false
+    let quote = ''
+    for (let i = 0; i < html.length; i++) {
+        const c = html[i]
+        if (quote !== '') {
+            quote = c === quote ? '' : quote
+        } else if (!inTag && html.startsWith('<!--', i)) {
+            // quotes in comments are not attribute values
+            const end = html.indexOf('-->', i + 4)
+            if (end === -1) {
+                break
+            }
+            i = cut = end + 2
+        } else if (!inTag) {
+            inTag = c === '<' && /[a-z!/?]/i.test(html[i + 1] || '')
+        } else if (c === '"' || c === '\'') {
+            quote = c
+        } else if (c === '>') {
+            inTag = false
+            cut = i
+        }
+    }
+    return cut
+}
+
+/**
+ * Index of the last '}', ';' or line break of a CSS text, or -1 if there is none.
+ *
+ * @param {string} css
+ * @return {number}
+ */
+export function lastCssBoundary(css: string): number {
+    return Math.max(css.lastIndexOf('}'), css.lastIndexOf(';'), css.lastIndexOf('\n'))
+}
+
+/**
+ * Headers of the original request to forward to target, with the request header rules applied.
+ */
+function proxyRequestHeaders(r: Request, config: ProxyConfig): Headers {
+    const headers = new Headers()
+    r.headers.forEach((value, name) => {
+        if (shouldForwardHeader(name, config.forward_headers)) {
+            headers.set(name, value)
+        }
+    })
+    rewriteHeaders(headers, config.request_headers || {})
+    return headers
+}
+
+function shouldForwardHeader(name: string, forwardHeaders: Array<string> | undefined): boolean {
+    if (forwardHeaders !== undefined) {
+        const normName = name.toLowerCase()
+        return forwardHeaders.some(h => h.toLowerCase() === normName)
+    }
+    return isForwardedHeader(name)
+}
+
+function rewriteHeaders(headers: Headers, rules: HeaderRules) {
+    for (let name of rules.remove || []) {
+        headers.delete(name)
+    }
+    const add = rules.add || {}
+    for (let name of Object.keys(add)) {
+        headers.set(name, add[name])
+    }
+}
+
+/**
+ * Caching layer in front of the target, on top of a Cache API style store.
+ *
+ * Responses are cached for the TTL of their host, then served as stale for `stale_while_revalidate` seconds
+ * while being refreshed in background. The X-Proxy-Cache header tells if a response is a HIT, STALE or MISS
+ * of the cache, or BYPASS if the request is not cacheable.
+ */
+export class ProxyCache {
+    constructor(private readonly store: ResponseCache,
+                private readonly config: CacheConfig,
+                private readonly now: () => number = Date.now) {
+    }
+
+    /**
+     * @param {string} method of the request
+     * @param {string} targetUrl
+     * @param {Headers} headers of the request to target
+     * @param {() => Promise<Response>} upstream get the response from target
+     * @param {(p: Promise<any>) => void} waitUntil extend the lifetime of the request to the given background task
+     * @return {Promise<Response>}
+     */
+    async fetch(method: string, targetUrl: string, headers: Headers, upstream: () => Promise<Response>,
+                waitUntil: (p: Promise<any>) => void): Promise<Response> {
+        const ttl = cacheTtl(new URL(targetUrl).hostname, this.config)
+        if (ttl <= 0 || isCacheBypassed(method, headers)) {
+            return withCacheStatus(await upstream(), 'BYPASS')
+        }
+        const key = cacheKey(targetUrl, headers, this.config.vary_headers || [])
+        const cached = await this.store.match(key)
+        if (cached !== undefined) {
+            const age = (this.now() - Number(cached.headers.get(cachedAtHeader))) / 1000
+            if (age < ttl) {
+                return fromCache(cached, 'HIT', age)
+            }
+            if (age < ttl + (this.config.stale_while_revalidate || 0)) {
+                waitUntil(this.revalidate(key, ttl, upstream))
+                return fromCache(cached, 'STALE', age)
+            }
+        }
+        const resp = await upstream()
+        if (isCacheable(resp)) {
+            waitUntil(this.put(key, resp.clone(), ttl))
+        }
+        return withCacheStatus(resp, 'MISS')
+    }
+
+    private async revalidate(key: Request, ttl: number, upstream: () => Promise<Response>): Promise<void> {
+        try {
+            const resp = await upstream()
+            if (isCacheable(resp)) {
+                await this.put(key, resp, ttl)
+            }
+        } catch (e) {
+            // the stale response is kept until it expires, so that another request could retry
+            console.error(`Failed to revalidate ${key.url}: ${e}`)
+        }
+    }
+
+    private async put(key: Request, resp: Response, ttl: number): Promise<void> {
+        const headers = new Headers(resp.headers)
+        headers.set(cachedAtHeader, String(this.now()))
+        const cacheControl = headers.get('cache-control')
+        if (cacheControl !== null) {
+            headers.set(originalCacheControlHeader, cacheControl)
+        }
+        // the store keeps the response for as long as it can be served, freshness is checked with its cached time
+        headers.set('cache-control', `max-age=${ttl + (this.config.stale_while_revalidate || 0)}`)
+        await this.store.put(key, new Response(resp.body, {status: resp.status, statusText: resp.statusText, headers}))
+    }
+}
+
+/**
+ * The subset of Cache API used by the proxy, which is implemented by `caches.default` of Cloudflare Workers.
+ */
+export interface ResponseCache {
+    match(key: Request): Promise<Response | undefined>
+
+    put(key: Request, resp: Response): Promise<void>
+}
+
+/**
+ * In-memory ResponseCache, used where Cache API is not available. Entries expire by max-age of their Cache-Control.
+ */
+export class MemoryCache implements ResponseCache {
+    private readonly entries = new Map<string, { resp: Response, expires: number }>()
+
+    constructor(private readonly now: () => number = Date.now) {
+    }
+
+    async match(key: Request): Promise<Response | undefined> {
+        const entry = this.entries.get(key.url)
+        if (entry === undefined) {
+            return undefined
+        }
+        if (entry.expires <= this.now()) {
+            this.entries.delete(key.url)
+            return undefined
+        }
+        return entry.resp.clone()
+    }
+
+    async put(key: Request, resp: Response): Promise<void> {
+        const maxAge = /(?:^|,)\s*max-age\s*=\s*(\d+)/i.exec(resp.headers.get('cache-control') || '')
+        if (maxAge !== null) {
+            this.entries.set(key.url, {resp, expires: this.now() + Number(maxAge[1]) * 1000})
+        }
+    }
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'BYPASS'
+
+const cacheStatusHeader = 'X-Proxy-Cache'
+const cachedAtHeader = 'X-Proxy-Cached-At'
+const originalCacheControlHeader = 'X-Proxy-Cache-Control'
+
+/**
+ * Build the key of a request in the cache, which is the target URL with values of the vary headers
+ * appended to the query string.
+ *
+ * @param {string} targetUrl
+ * @param {Headers} headers of the request to target
+ * @param {Array<string>} varyHeaders
+ * @return {Request}
+ */
+export function cacheKey(targetUrl: string, headers: Headers, varyHeaders: Array<string>): Request {
+    const url = new URL(targetUrl)
+    for (let name of varyHeaders) {
+        const value = headers.get(name)
+        if (value !== null) {
+            url.searchParams.append(`__proxy_vary_${name.toLowerCase()}`, value)
+        }
+    }
+    return new Request(url.toString())
+}
+
+/**
+ * @param {string} host
+ * @param {CacheConfig} config
+ * @return {number} TTL in seconds of responses from the host, 0 if they should not be cached
+ */
+export function cacheTtl(host: string, config: CacheConfig): number {
+    const rule = (config.ttls || []).find(t => isAllowedHost(host, [t.host]))
+    return rule !== undefined ? rule.ttl : (config.default_ttl || 0)
+}
+
+/**
+ * Only GET requests without credentials are served from the cache, as the response of authenticated requests
+ * could be specific to the user.
+ */
+function isCacheBypassed(method: string, headers: Headers): boolean {
+    return method !== 'GET' || headers.has('authorization') || headers.has('cookie')
+}
+
+function isCacheable(resp: Response): boolean {
+    const cacheControl = (resp.headers.get('cache-control') || '').toLowerCase()
+    return resp.status === 200
+        && !/(^|,)\s*(no-store|no-cache|private)\b/.test(cacheControl)
+        && !resp.headers.has('set-cookie')
+        && (resp.headers.get('vary') || '').trim() !== '*'
+}
+
+function fromCache(resp: Response, status: CacheStatus, age: number): Response {
+    const headers = new Headers(resp.headers)
+    const cacheControl = headers.get(originalCacheControlHeader)
+    if (cacheControl !== null) {
+        headers.set('cache-control', cacheControl)
+    } else {
+        headers.delete('cache-control')
+    }
+    headers.delete(originalCacheControlHeader)
+    headers.delete(cachedAtHeader)
+    headers.set('age', String(Math.floor(age)))
+    headers.set(cacheStatusHeader, status)
+    return new Response(resp.body, {status: resp.status, statusText: resp.statusText, headers})
+}
+
+function withCacheStatus(resp: Response, status: CacheStatus): Response {
+    const headers = new Headers(resp.headers)
+    headers.set(cacheStatusHeader, status)
+    return new Response(resp.body, {status: resp.status, statusText: resp.statusText, headers})
+}
+
+export interface ProxyConfig {
+    // Only allow proxying to hosts in this list, either equal to a string or matched by a RegExp.
+    // Default is empty, which means nothing is allowed.
+    readonly allowed_hosts?: Array<string | RegExp>
+
+    // Whether or not to rewrite URLs to allowed hosts in HTML, CSS and headers of the responses,
+    // so that the proxied site stays inside the proxy. Default: false
+    readonly rewrite?: boolean
+
+    // Only forward these headers of the original request. Default is to forward all headers,
+    // except hop-by-hop headers and the ones added by Cloudflare.
+    readonly forward_headers?: Array<string>
+
+    // Rules to rewrite headers of the request to target. Default: {}
+    readonly request_headers?: HeaderRules
+
+    // Rules to rewrite headers of the response from target. Default: {}
+    readonly response_headers?: HeaderRules
+
+    // Cache responses of GET requests without credentials, see @CacheConfig below. Default is no caching.
+    readonly cache?: CacheConfig
+}
+
+export interface CacheConfig {
+    // TTL in seconds of responses by host, either equal to a string or matched by a RegExp. The first match is used.
+    // Default: []
+    readonly ttls?: Array<{ host: string | RegExp, ttl: number }>
+
+    // TTL in seconds of responses from hosts without a TTL in `ttls`. Default: 0, which means not cached
+    readonly default_ttl?: number
+
+    // Seconds after the TTL a stale response is still served while it is refreshed in background. Default: 0
+    readonly stale_while_revalidate?: number
+
+    // Request headers whose values are part of the cache key, e.g. Accept-Encoding. Default: []
+    readonly vary_headers?: Array<string>
+}
+
+export interface HeaderRules {
+    // Headers to set, replacing existing values. Default: {}
+    readonly add?: { [name: string]: string }
+
+    // Headers to remove, which is done before adding. Default: []
+    readonly remove?: Array<string>
+}
+
+// Streams and encoding APIs available in Cloudflare Workers, but not in TypeScript's DOM typings yet
+declare class TransformStream {
+    readonly readable: ReadableStream
+    readonly writable: { getWriter(): StreamWriter }
+}
+
+interface StreamWriter {
+    write(chunk: Uint8Array): Promise<void>
+
+    close(): Promise<void>
+
+    abort(reason: any): Promise<void>
+}
+
+declare class TextDecoder {
+    decode(input?: Uint8Array, options?: { stream: boolean }): string
+}
 
-    respondWith(r: Promise<Response> | Response): Promise<Response>;
+declare class TextEncoder {
+    encode(input: string): Uint8Array
 }
@@ -1,30 +1,640 @@
 /**
  * Racing Proxy: return the fastest response from given list of origins.
  *
+ * Origins are grouped in pools in the configuration, which are selected by host or path of the request.
+ * The path, query string, method, headers and body of the request are forwarded to each origin of the pool.
+ *
  * The main idea is that real-world latency depends on a lot on the exact time and location.
  * So the best strategy to optimize for latency would be to try several origins,
  * all at the same time and only return the first received response.
  *
- * WARNING: this will also return the first error or non 200 response as well. So it is
- * not a good-idea(TM), to use this for any kind of high-availability or redundant setup.
+ * To not multiply the load of origins for every request, requests can be hedged instead: the primary origin
+ * is tried first, and the others are only started if no good response is received after a delay.
+ * Requests to the losing origins are aborted as soon as there is a winner.
+ *
+ * The latency and errors of each origin are recorded, so that only the fastest healthy origins are raced.
+ * The other origins are included again from time to time, to measure them again.
+ *
+ * Only responses accepted by the configured rules are returned, i.e. the first good response wins.
+ * Errors and rejected responses of an origin are ignored as long as another origin could still answer,
+ * and a 502 response summarizing the outcome of each origin is returned if none of them does.
+ */
+
+import {percentile} from './lib/stats'
+import {cancelTimer, discardBody, errorResponse, isForwardedHeader, listen, matchPath, startTimer} from './lib/worker'
+
+/**
+ * Racer configuration, see @RaceConfig interface below for supported options.
+ * It is replaced by the configuration of the environment when built by scripts/build.ts.
+ */
+const config: RaceConfig = {
+    accept: {
+        status: ['2xx'],
+    },
+    hedge: {
+        delay: 100,
+        delay_percentile: 90,
+    },
+    pools: {
+        debian: {
+            path_prefix: '/worker/race/debian/',
+            origins: [
+                'https://deb.debian.org/debian/',
+                'https://mirrors.kernel.org/debian/',
+                'https://ftp.us.debian.org/debian/',
+            ],
+        },
+    },
+    adaptive: {
+        top_k: 2,
+        explore_interval: 60,
+    },
+}
+
+/**
+ * The optional RACE_STATS_STORE is a KV namespace to persist the stats of origins at key RACE_STATS_KEY
+ * (default: 'stats'), so that they are shared by worker instances. Otherwise they are kept in memory only.
  */
+declare var RACE_STATS_STORE: KeyValueStore | undefined
+declare var RACE_STATS_KEY: string | undefined
 
 /**
  * Cloudflare Worker entrypoint
  */
-if (typeof addEventListener === 'function') {
-    addEventListener('fetch', (e: Event): void => {
-        // work around as strict typescript check doesn't allow e to be of type FetchEvent
-        const fe = e as FetchEvent
-        const url = new URL(fe.request.url)
-        const origins = url.searchParams.getAll('o')
-        const responses = origins.map(o => fetch(o))
-        fe.respondWith(Promise.race(responses))
-    });
+listen(e => processRequest(e.request, config, fetch, originStats, p => e.waitUntil(p)))
+
+/**
+ * Race the origins of the pool selected for the request, or the origins given by `o` query parameters
+ * if they are allowed. The stats of origins are returned for any path ending with `/stats` instead.
+ *
+ * @param {Request} r
+ * @param {RaceConfig} config
+ * @param {Fetcher} fetcher
+ * @param {OriginStats} stats
+ * @param {(p: Promise<any>) => void} waitUntil extend the lifetime of the request to the given background task
+ * @return {Promise<Response>}
+ */
+export async function processRequest(r: Request, config: RaceConfig, fetcher: Fetcher = fetch,
+                                     stats: OriginStats = originStats,
+                                     waitUntil: (p: Promise<any>) => void = () => undefined): Promise<Response> {
+    await stats.load()
+    const url = new URL(r.url)
+    // the path is reserved for the stats, even if a pool would match it
+    if (matchPath('*/stats', url.pathname) !== null) {
+        return statsResponse(stats)
+    }
+    const pool = selectPool(url, config.pools || {})
+    let targets: Array<RaceTarget>
+    let init: RequestInit = {}
+    if (pool !== null) {
+        targets = pool.origins.map(origin => ({origin, url: poolTargetUrl(origin, url, pool)}))
+        init = await forwardedRequestInit(r)
+    } else if (config.allow_origin_params) {
+        targets = url.searchParams.getAll('o').map(o => ({origin: o, url: o}))
+    } else {
+        return errorResponse(`no origin pool for ${url.pathname}`, 404)
+    }
+    const resp = await raceOrigins(targets, config, init, fetcher, stats, waitUntil)
+    waitUntil(stats.save())
+    return resp
+}
+
+function statsResponse(stats: OriginStats): Response {
+    return new Response(JSON.stringify({origins: stats.summary()}, null, 2) + '\n', {
+        headers: {'Content-Type': 'application/json'}
+    })
+}
+
+/**
+ * @param {URL} url of the request
+ * @param {{[name: string]: OriginPool}} pools
+ * @return {OriginPool | null} the first pool matching host and path of the request
+ */
+export function selectPool(url: URL, pools: { [name: string]: OriginPool }): OriginPool | null {
+    for (let name of Object.keys(pools)) {
+        const pool = pools[name]
+        const hostMatched = pool.hosts === undefined || pool.hosts.some(h => typeof h === 'string'
+            ? h.toLowerCase() === url.hostname.toLowerCase()
+            : h.test(url.hostname))
+        if (hostMatched && url.pathname.startsWith(pool.path_prefix || '/')) {
+            return pool
+        }
+    }
+    return null
+}
+
+/**
+ * Build the URL to fetch from an origin of the pool: the path of the request after the path prefix of the pool,
+ * and its query string, are appended to the origin.
+ *
+ * @param {string} origin base URL
+ * @param {URL} url of the request
+ * @param {OriginPool} pool
+ * @return {string}
+ */
+export function poolTargetUrl(origin: string, url: URL, pool: OriginPool): string {
+    const path = url.pathname.slice((pool.path_prefix || '/').length).replace(/^\/+/, '')
+    return origin.replace(/\/+$/, '') + '/' + path + url.search
+}
+
+/**
+ * Method, headers and body of the request to forward to the origins. As the request is sent to several
+ * origins, its body is read in full.
+ */
+async function forwardedRequestInit(r: Request): Promise<RequestInit> {
+    const headers = new Headers()
+    r.headers.forEach((value, name) => {
+        if (isForwardedHeader(name)) {
+            headers.set(name, value)
+        }
+    })
+    const init: RequestInit = {method: r.method, headers}
+    if (r.method !== 'GET' && r.method !== 'HEAD') {
+        init.body = await r.arrayBuffer()
+    }
+    return init
+}
+
+/**
+ * An origin to race, and the URL to fetch from it.
+ */
+export interface RaceTarget {
+    readonly origin: string
+    readonly url: string
+    // Whether the origin is raced to measure it again. It is then started right away and not aborted
+    // if another origin wins, so that its latency is recorded. Default: false
+    readonly measure?: boolean
+}
+
+/**
+ * Fetch the origins in order, with the configured hedging delay between them, and return the first accepted
+ * response, or a 502 response with the outcome of each origin if none is accepted.
+ * The X-Race-Winner header of the response tells which origin won, and after how long.
+ *
+ * @param {Array<RaceTarget>} targets to fetch, the first one is the primary origin
+ * @param {RaceConfig} config
+ * @param {RequestInit} init method, headers and body of the requests to origins
+ * @param {Fetcher} fetcher
+ * @param {OriginStats} stats to record the outcome of origins in, and to select them with
+ * @param {(p: Promise<any>) => void} waitUntil extend the lifetime of the request to the given background task
+ * @return {Promise<Response>}
+ */
+export async function raceOrigins(targets: Array<RaceTarget>, config: RaceConfig, init: RequestInit = {},
+                                  fetcher: Fetcher = fetch, stats: OriginStats = originStats,
+                                  waitUntil: (p: Promise<any>) => void = () => undefined): Promise<Response> {
+    if (targets.length === 0) {
+        return errorResponse('no origin to race')
+    }
+    const selected = config.adaptive !== undefined ? stats.select(targets, config.adaptive) : targets
+    stats.markRaced(selected.map(t => t.origin))
+
+    const hedge = config.hedge || {}
+    const percentileDelay = hedge.delay_percentile !== undefined
+        ? stats.latencyPercentile(selected[0].origin, hedge.delay_percentile, minDelaySamples)
+        : null
+    const delay = percentileDelay !== null ? percentileDelay : (hedge.delay || 0)
+
+    const observe = (origin: string, latency: number, failure: string | null) => failure === null
+        ? stats.recordSuccess(origin, latency)
+        : stats.recordFailure(origin, failure)
+    const {winner, outcomes, measuring} = await firstAccepted(selected, config.accept || {}, delay, init,
+        fetcher, observe)
+    waitUntil(measuring)
+    if (winner === null) {
+        return summaryResponse(outcomes)
+    }
+
+    const resp = winner.response
+    const headers = new Headers(resp.headers)
+    headers.set('X-Race-Winner', `${winner.origin}; elapsed=${winner.elapsed}ms`)
+    return new Response(resp.body, {status: resp.status, statusText: resp.statusText, headers})
+}
+
+/**
+ * Outcome of an origin which didn't win the race.
+ */
+export interface OriginOutcome {
+    readonly origin: string
+    // either the reason the response was rejected, or the fetch error
+    readonly reason: string
+}
+
+export interface RaceWinner {
+    readonly origin: string
+    readonly response: Response
+    // milliseconds since the start of the race
+    readonly elapsed: number
+    // milliseconds since the start of the request to the winning origin
+    readonly latency: number
+}
+
+export interface RaceResult {
+    readonly winner: RaceWinner | null
+    readonly outcomes: Array<OriginOutcome>
+    // resolved when the requests to measured origins are done
+    readonly measuring: Promise<void>
+}
+
+/**
+ * Called with the outcome of each request to an origin which isn't aborted, with the reason
+ * of the failure or null for a good response.
+ */
+export type RaceObserver = (origin: string, latency: number, failure: string | null) => void
+
+/**
+ * Start the origins one by one, the next one after `delay` milliseconds or as soon as a started one fails,
+ * and resolve with the first accepted response as soon as it is received. The requests to other origins
+ * are aborted then, except the measured ones. If all of them are failed or rejected, resolve with their outcomes.
+ *
+ * @param {Array<RaceTarget>} targets
+ * @param {AcceptConfig} accept
+ * @param {number} delay in milliseconds, all origins are started at the same time if it is 0
+ * @param {RequestInit} init
+ * @param {Fetcher} fetcher
+ * @param {RaceObserver} observe
+ * @return {Promise<RaceResult>}
+ */
+export function firstAccepted(targets: Array<RaceTarget>, accept: AcceptConfig, delay: number, init: RequestInit,
+                              fetcher: Fetcher, observe: RaceObserver = () => undefined): Promise<RaceResult> {
+    return new Promise(resolve => {
+        const controllers = targets.map(() => new AbortController())
+        const outcomes: Array<OriginOutcome> = []
+        const measuring: Array<Promise<void>> = []
+        const start = Date.now()
+        // measured origins are started right away, the others one by one
+        const queue = targets.map((t, i) => i).filter(i => !targets[i].measure)
+        let done = false
+        let timer: number | undefined
+
+        const finish = (winner: RaceWinner | null) => {
+            done = true
+            cancelTimer(timer)
+            resolve({winner, outcomes, measuring: Promise.all(measuring).then(() => undefined)})
+        }
+        const fail = (origin: string, reason: string) => {
+            outcomes.push({origin, reason})
+            if (outcomes.length === targets.length) {
+                finish(null)
+            } else {
+                // no need to wait for the delay, this origin won't answer
+                launchNext()
+            }
+        }
+        const launch = (index: number) => {
+            const {origin, url, measure} = targets[index]
+            const started = Date.now()
+            const request = fetcher(url, {...init, signal: controllers[index].signal}).then(resp => {
+                const latency = Date.now() - started
+                const reason = rejectionReason(resp, accept)
+                observe(origin, latency, reason)
+                if (done || reason !== null) {
+                    discardBody(resp)
+                    if (!done) {
+                        fail(origin, reason!)
+                    }
+                    return
+                }
+                controllers.forEach((c, i) => i !== index && !targets[i].measure && c.abort())
+                finish({origin, response: resp, elapsed: Date.now() - start, latency})
+            }, e => {
+                // errors of aborted requests are not the fault of their origins
+                if (!done || measure) {
+                    observe(origin, Date.now() - started, `fetch error: ${e}`)
+                }
+                if (!done) {
+                    fail(origin, `fetch error: ${e}`)
+                }
+            })
+            if (measure) {
+                measuring.push(request)
+            }
+        }
+        const launchNext = () => {
+            cancelTimer(timer)
+            const index = queue.shift()
+            if (done || index === undefined) {
+                return
+            }
+            launch(index)
+            if (delay > 0) {
+                timer = startTimer(launchNext, delay)
+            } else {
+                launchNext()
+            }
+        }
+        targets.forEach((t, i) => t.measure && launch(i))
+        launchNext()
+    })
 }
 
-interface FetchEvent extends Event {
-    request: Request;
+// Number of latency samples of the primary origin needed to use their percentile as hedging delay
+const minDelaySamples = 10
+
+/**
+ * Rolling record of the recent outcomes of each origin, used to select the origins to race.
+ *
+ * The records are kept in memory for the lifetime of the worker instance, and can be persisted
+ * to a StatsStore to be shared by instances.
+ */
+export class OriginStats {
+    private records: { [origin: string]: OriginRecord } = {}
+    private loaded: Promise<void> | null = null
+    private lastSaved: number
+
+    constructor(private readonly store: StatsStore | null = null,
+                private readonly windowSize: number = 100,
+                private readonly saveInterval: number = 60,
+                private readonly now: () => number = Date.now) {
+        this.lastSaved = now()
+    }
 
-    respondWith(r: Promise<Response> | Response): Promise<Response>;
-}
\ No newline at end of file
+    /**
+     * Load the persisted records, once. Records of this instance take precedence.
+     */
+    load(): Promise<void> {
+        if (this.loaded === null) {
+            const store = this.store
+            this.loaded = store === null ? Promise.resolve() : store.load().then(records => {
+                this.records = {...records, ...this.records}
+            }, e => console.error(`Failed to load stats of origins: ${e}`))
+        }
+        return this.loaded
+    }
+
+    /**
+     * Persist the records, if the last time is more than `saveInterval` seconds ago.
+     */
+    async save(): Promise<void> {
+        if (this.store === null || this.now() - this.lastSaved < this.saveInterval * 1000) {
+            return
+        }
+        this.lastSaved = this.now()
+        try {
+            await this.store.save(this.records)
+        } catch (e) {
+            console.error(`Failed to save stats of origins: ${e}`)
+        }
+    }
+
+    recordSuccess(origin: string, latency: number) {
+        const record = this.record(origin)
+        this.push(record.latencies, latency)
+        this.push(record.results, true)
+    }
+
+    recordFailure(origin: string, reason: string) {
+        const record = this.record(origin)
+        this.push(record.results, false)
+        record.last_error = reason
+    }
+
+    markRaced(origins: Array<string>) {
+        for (let origin of origins) {
+            this.record(origin).last_raced = this.now()
+        }
+    }
+
+    /**
+     * @param {string} origin
+     * @param {number} p percentile, between 0 and 100
+     * @param {number} minSamples
+     * @return {number | null} the percentile of recent latencies of the origin, or null without enough samples
+     */
+    latencyPercentile(origin: string, p: number, minSamples: number = 1): number | null {
+        const record = this.records[origin]
+        return record === undefined ? null : percentile(record.latencies, p, minSamples)
+    }
+
+    /**
+     * @param {string} origin
+     * @return {number | null} the ratio of failures in recent requests to the origin, or null if there is none
+     */
+    errorRate(origin: string): number | null {
+        const record = this.records[origin]
+        if (record === undefined || record.results.length === 0) {
+            return null
+        }
+        return record.results.filter(ok => !ok).length / record.results.length
+    }
+
+    /**
+     * Select the origins to race: the `top_k` fastest healthy ones by median latency, followed by the others
+     * which haven't been raced for `explore_interval` seconds, to measure them again. All origins are
+     * raced while none of them is known to be fast and healthy.
+     *
+     * @param {Array<RaceTarget>} targets
+     * @param {AdaptiveConfig} config
+     * @return {Array<RaceTarget>}
+     */
+    select(targets: Array<RaceTarget>, config: AdaptiveConfig): Array<RaceTarget> {
+        const maxErrorRate = config.max_error_rate !== undefined ? config.max_error_rate : 0.5
+        const median = (t: RaceTarget) => this.latencyPercentile(t.origin, 50)
+        const fast = targets
+            .filter(t => median(t) !== null && this.errorRate(t.origin)! <= maxErrorRate)
+            .sort((a, b) => median(a)! - median(b)!)
+        if (fast.length === 0) {
+            return targets
+        }
+        const top = fast.slice(0, config.top_k || fast.length)
+        const interval = (config.explore_interval !== undefined ? config.explore_interval : 60) * 1000
+        const explored = targets.filter(t => {
+            const record = this.records[t.origin]
+            return !top.includes(t) && this.now() - (record && record.last_raced || 0) >= interval
+        })
+        return [...top, ...explored.map(t => ({...t, measure: true}))]
+    }
+
+    /**
+     * @return {{[origin: string]: OriginSummary}} summary of the recent outcomes of each origin
+     */
+    summary(): { [origin: string]: OriginSummary } {
+        const summary: { [origin: string]: OriginSummary } = {}
+        for (let origin of Object.keys(this.records)) {
+            const record = this.records[origin]
+            summary[origin] = {
+                requests: record.results.length,
+                error_rate: this.errorRate(origin),
+                latency_ms: {
+                    p50: this.latencyPercentile(origin, 50),
+                    p90: this.latencyPercentile(origin, 90),
+                    p99: this.latencyPercentile(origin, 99),
+                },
+                last_raced: record.last_raced !== undefined ? new Date(record.last_raced).toISOString() : null,
+                last_error: record.last_error !== undefined ? record.last_error : null,
+            }
+        }
+        return summary
+    }
+
+    private record(origin: string): OriginRecord {
+        if (this.records[origin] === undefined) {
+            this.records[origin] = {latencies: [], results: []}
+        }
+        return this.records[origin]
+    }
+
+    private push<T>(window: Array<T>, value: T) {
+        window.push(value)
+        if (window.length > this.windowSize) {
+            window.shift()
+        }
+    }
+}
+
+/**
+ * Stats of origins, kept for the lifetime of the worker instance.
+ */
+const originStats = new OriginStats(typeof RACE_STATS_STORE !== 'undefined'
+    ? kvStatsStore(RACE_STATS_STORE, typeof RACE_STATS_KEY !== 'undefined' ? RACE_STATS_KEY : 'stats')
+    : null)
+
+/**
+ * Recent outcomes of an origin. It is persisted as JSON, so only has plain values.
+ */
+export interface OriginRecord {
+    // latencies in milliseconds of the recent good responses
+    latencies: Array<number>
+    // outcomes of the recent requests, true for good responses
+    results: Array<boolean>
+    // time the origin was last raced, in milliseconds since epoch
+    last_raced?: number
+    last_error?: string
+}
+
+export interface OriginSummary {
+    readonly requests: number
+    readonly error_rate: number | null
+    readonly latency_ms: { p50: number | null, p90: number | null, p99: number | null }
+    readonly last_raced: string | null
+    readonly last_error: string | null
+}
+
+/**
+ * Persistence of the records of origins.
+ */
+export interface StatsStore {
+    load(): Promise<{ [origin: string]: OriginRecord } | null>
+
+    save(records: { [origin: string]: OriginRecord }): Promise<void>
+}
+
+/**
+ * Subset of a KV namespace used to persist the stats.
+ */
+export interface KeyValueStore {
+    get(key: string): Promise<string | null>
+
+    put(key: string, value: string): Promise<void>
+}
+
+/**
+ * @param {KeyValueStore} kv
+ * @param {string} key
+ * @return {StatsStore} store of the records as a JSON document at the key of the KV namespace
+ */
+export function kvStatsStore(kv: KeyValueStore, key: string): StatsStore {
+    return {
+        load: async () => {
+            const text = await kv.get(key)
+            return text === null ? null : JSON.parse(text)
+        },
+        save: records => kv.put(key, JSON.stringify(records)),
+    }
+}
+
+/**
+ * @param {Response} resp
+ * @param {AcceptConfig} accept
+ * @return {string | null} the reason the response is not accepted, or null if it is
+ */
+export function rejectionReason(resp: Response, accept: AcceptConfig): string | null {
+    const status = accept.status || ['2xx']
+    const statusAccepted = status.some(s => typeof s === 'number'
+        ? resp.status === s
+        : s.toLowerCase() === `${Math.floor(resp.status / 100)}xx`)
+    if (!statusAccepted) {
+        return `status ${resp.status}`
+    }
+    for (let header of accept.required_headers || []) {
+        if (!resp.headers.has(header)) {
+            return `missing header ${header}`
+        }
+    }
+    return null
+}
+
+/**
+ * @param {Array<OriginOutcome>} outcomes
+ * @return {Response} 502 response with the outcome of each origin
+ */
+export function summaryResponse(outcomes: Array<OriginOutcome>): Response {
+    const lines = outcomes.map(o => `${o.origin}: ${o.reason}`)
+    return new Response(`No acceptable response from origins:\n${lines.join('\n')}\n`, {
+        status: 502,
+        statusText: 'Bad Gateway',
+        headers: {'content-type': 'text/plain; charset=utf-8'}
+    })
+}
+
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>
+
+export interface RaceConfig {
+    // Rules of responses to accept, see @AcceptConfig below. Default: {}
+    readonly accept?: AcceptConfig
+
+    // Hedging of requests to origins, see @HedgeConfig below. Default: {}, all origins are started at once
+    readonly hedge?: HedgeConfig
+
+    // Pools of origins by name, see @OriginPool below. The first pool matching the request is used. Default: {}
+    readonly pools?: { [name: string]: OriginPool }
+
+    // Whether or not to race arbitrary origins given by `o` query parameters, for requests not matching any pool.
+    // This lets any caller make the worker fetch any URL. Default: false
+    readonly allow_origin_params?: boolean
+
+    // Select the origins to race by their recent latency and errors, see @AdaptiveConfig below.
+    // Default is to race all origins.
+    readonly adaptive?: AdaptiveConfig
+}
+
+export interface AdaptiveConfig {
+    // Only race this number of the fastest healthy origins. Default: all healthy origins
+    readonly top_k?: number
+
+    // Origins with a higher ratio of failures in recent requests are not raced, except to measure them again.
+    // Default: 0.5
+    readonly max_error_rate?: number
+
+    // Seconds after which origins that are not raced are included again, to measure them. Default: 60
+    readonly explore_interval?: number
+}
+
+export interface OriginPool {
+    // Base URLs of the origins. The path of the request after `path_prefix` and its query string are appended.
+    readonly origins: Array<string>
+
+    // Only select this pool for requests to these hosts, either equal to a string or matched by a RegExp.
+    // Default: any host
+    readonly hosts?: Array<string | RegExp>
+
+    // Only select this pool for requests with a path starting with this prefix. Default: '/'
+    readonly path_prefix?: string
+}
+
+export interface AcceptConfig {
+    // Accept only responses with these status codes, or classes of status codes such as '2xx'. Default: ['2xx']
+    readonly status?: Array<number | string>
+
+    // Accept only responses that have all of these headers. Default: []
+    readonly required_headers?: Array<string>
+}
+
+export interface HedgeConfig {
+    // Milliseconds to wait for a good response before starting the next origin. Default: 0, which means
+    // all origins are started at the same time
+    readonly delay?: number
+
+    // Use this percentile of the recent latencies of the primary origin as delay instead, e.g. 90.
+    // `delay` is still used until there are enough samples. Default: not used
+    readonly delay_percentile?: number
+}
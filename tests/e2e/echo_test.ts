@@ -0,0 +1,55 @@
+import 'mocha'
+import * as chai from 'chai'
+import {MockUpstream, TestWorker} from './harness'
+
+const expect = chai.expect
+
+describe('echo worker', () => {
+    const upstream = new MockUpstream()
+        .on('https://echo.test/worker/echo/response', {redirect: 'https://origin.test/final'})
+        .on('https://origin.test/final', {status: 201, headers: {'x-origin': 'final'}, body: 'created'})
+    const worker = new TestWorker('src/echo.ts', {upstream})
+
+    it('should echo the request as JSON', async () => {
+        const resp = await worker.dispatch('https://echo.test/worker/echo/request?format=json&a=1&a=2', {
+            method: 'POST',
+            headers: {'x-test': 'yes'},
+            body: 'hello',
+        })
+        expect(resp.status).to.equal(200)
+        expect(resp.headers.get('content-type')).to.equal('application/json')
+        const info = await resp.json()
+        expect(info).to.include({method: 'POST', body: 'hello', body_size: 5, body_truncated: false})
+        expect(info.query).to.deep.equal({format: 'json', a: ['1', '2']})
+        expect(info.headers['x-test']).to.equal('yes')
+    })
+    it('should describe the upstream response with its redirects', async () => {
+        const resp = await worker.dispatch('https://echo.test/worker/echo/response?format=json')
+        const info = await resp.json()
+        expect(info).to.include({status: 201, url: 'https://origin.test/final', redirected: true})
+        expect(info.redirects.map((r: any) => r.location)).to.deep.equal(['https://origin.test/final'])
+        expect(info.headers['x-origin']).to.equal('final')
+    })
+    it('should return 500 for an upstream error', async () => {
+        const resp = await worker.dispatch('https://unknown.test/response/status')
+        expect(resp.status).to.equal(500)
+        expect(await resp.text()).to.match(/^error: no mock upstream for GET https:\/\/unknown.test\//)
+    })
+    it('should serve the httpbin-like routes', async () => {
+        expect((await worker.dispatch('https://echo.test/status/418')).status).to.equal(418)
+        const bytes = await worker.dispatch('https://echo.test/bytes/1000')
+        expect((await bytes.arrayBuffer()).byteLength).to.equal(1000)
+        const headers = await worker.dispatch('https://echo.test/response-headers?x-a=1')
+        expect(headers.headers.get('x-a')).to.equal('1')
+        const invalid = await worker.dispatch('https://echo.test/response-headers?x-a=1%0A2')
+        expect(invalid.status).to.equal(400)
+        expect(await invalid.text()).to.equal('error: invalid header: "x-a"\n')
+        const redirect = await worker.dispatch('https://echo.test/worker/echo/redirect/2?x=1')
+        expect(redirect.headers.get('location')).to.equal('/worker/echo/redirect/1?x=1')
+
+        const start = Date.now()
+        const delayed = await worker.dispatch('https://echo.test/delay/50')
+        expect(delayed.status).to.equal(200)
+        expect(Date.now() - start).to.be.at.least(50)
+    })
+})
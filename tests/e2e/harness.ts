@@ -0,0 +1,244 @@
+/**
+ * Harness to test a worker as a whole: the worker is bundled like it is deployed, then fetch events are
+ * dispatched to the handler it registers with `addEventListener`, and its subrequests are sent to a scriptable
+ * mock upstream instead of the network.
+ *
+ * The worker runs with the native fetch API of Node (18+), as the whatwg-fetch polyfill used by the unit tests
+ * has no body streams. The unit tests replace the globals with the polyfill, so this module is loaded before
+ * them by the mocha `-r` option to keep the native classes.
+ */
+
+import {bundle} from '../../scripts/bundle'
+
+declare var global: any
+
+// the native fetch API, also for tests which need it after the polyfill is installed
+export const natives = {
+    Request: global.Request as { new(input: string | Request, init?: RequestInit): Request },
+    Response: global.Response as { new(body?: any, init?: ResponseInit): Response },
+    Headers: global.Headers as { new(init?: any): Headers },
+    URL: global.URL,
+    URLSearchParams: global.URLSearchParams,
+    AbortController: global.AbortController,
+    DOMException: global.DOMException,
+    ReadableStream: global.ReadableStream,
+    TransformStream: global.TransformStream,
+    TextEncoder: global.TextEncoder,
+    TextDecoder: global.TextDecoder,
+    crypto: global.crypto,
+}
+
+if (natives.Request === undefined || !('body' in natives.Request.prototype)) {
+    throw new Error('the worker harness needs the native fetch API of Node 18+, ' +
+        'and must be loaded before the whatwg-fetch polyfill')
+}
+
+/**
+ * Reply of the mock upstream to a request.
+ */
+export interface MockReply {
+    // default: 200, or 302 for a redirect
+    readonly status?: number
+    readonly headers?: { [name: string]: string }
+    readonly body?: string | null
+    // milliseconds before the response headers are received
+    readonly delay?: number
+    // fail the request with a network error with this message instead
+    readonly error?: string
+    // redirect to this URL
+    readonly redirect?: string
+}
+
+export type MockHandler = (r: Request) => MockReply | Response | Promise<MockReply | Response>
+
+interface MockRule {
+    readonly url: string | RegExp
+    readonly handler: MockHandler
+}
+
+// Same as the limit of fetch() of Cloudflare Workers
+const maxRedirects = 20
+
+/**
+ * Mock upstream to stub `fetch()` of workers with.
+ *
+ * Rules match the URL of requests by prefix or RegExp, and rules added later take precedence so that a test can
+ * override a default reply. A request without matching rule fails with a network error.
+ */
+export class MockUpstream {
+    private readonly rules: Array<MockRule> = []
+    // requests received, in order, including the ones following redirects
+    readonly requests: Array<Request> = []
+    // URLs of requests which were aborted by the worker before being replied
+    readonly aborted: Array<string> = []
+
+    on(url: string | RegExp, reply: MockReply | MockHandler): this {
+        this.rules.unshift({url, handler: typeof reply === 'function' ? reply : () => reply})
+        return this
+    }
+
+    /**
+     * The `fetch()` of the worker, which follows redirects unless the request is in `manual` redirect mode.
+     */
+    readonly fetch = async (input: string | Request, init?: RequestInit): Promise<Response> => {
+        let r = new natives.Request(input, init)
+        for (let redirects = 0; ; redirects++) {
+            const resp = await this.reply(r)
+            const location = resp.headers.get('location')
+            if (r.redirect === 'manual' || location === null || ![301, 302, 303, 307, 308].includes(resp.status)) {
+                return resp
+            }
+            if (redirects >= maxRedirects) {
+                throw new TypeError(`too many redirects: ${r.url}`)
+            }
+            const method = resp.status === 303 || (resp.status !== 307 && resp.status !== 308 && r.method === 'POST')
+                ? 'GET' : r.method
+            const body = method === r.method && method !== 'GET' && method !== 'HEAD' ? await r.arrayBuffer() : null
+            r = new natives.Request(new natives.URL(location, r.url).toString(), {
+                method,
+                headers: r.headers,
+                body,
+                signal: r.signal,
+            })
+        }
+    }
+
+    private async reply(r: Request): Promise<Response> {
+        this.requests.push(r)
+        const rule = this.rules.find(({url}) => typeof url === 'string' ? r.url.startsWith(url) : url.test(r.url))
+        if (rule === undefined) {
+            throw new TypeError(`no mock upstream for ${r.method} ${r.url}`)
+        }
+        const reply = await rule.handler(r)
+        if (reply instanceof natives.Response) {
+            return reply
+        }
+        const mock = reply as MockReply
+        if (mock.delay !== undefined) {
+            await this.delay(r, mock.delay)
+        }
+        if (mock.error !== undefined) {
+            throw new TypeError(mock.error)
+        }
+        const headers = new natives.Headers(mock.headers)
+        if (mock.redirect !== undefined) {
+            headers.set('location', mock.redirect)
+        }
+        const status = mock.status !== undefined ? mock.status : mock.redirect !== undefined ? 302 : 200
+        const body = mock.body !== undefined ? mock.body : [204, 205, 304].includes(status) ? null : ''
+        return new natives.Response(body, {status, headers})
+    }
+
+    private delay(r: Request, ms: number): Promise<void> {
+        const signal = r.signal
+        return new Promise((resolve, reject) => {
+            const abort = () => {
+                clearTimeout(timer)
+                this.aborted.push(r.url)
+                reject(new natives.DOMException('The operation was aborted.', 'AbortError'))
+            }
+            const timer = setTimeout(() => {
+                signal.removeEventListener('abort', abort)
+                resolve()
+            }, ms)
+            if (signal.aborted) {
+                abort()
+            }
+            signal.addEventListener('abort', abort)
+        })
+    }
+}
+
+export interface WorkerOptions {
+    // environment bindings of the worker, e.g. KV namespaces and variables
+    readonly bindings?: { [name: string]: any }
+    readonly upstream?: MockUpstream
+}
+
+type FetchListener = (e: object) => void
+
+// bundles by entry, as bundling compiles all modules of the worker
+const bundles = new Map<string, string>()
+
+/**
+ * A worker loaded from its TypeScript source, as a fresh instance with its own global state.
+ */
+export class TestWorker {
+    private readonly listeners: Array<FetchListener> = []
+    // background tasks given to waitUntil() of fetch events
+    private readonly pending: Array<Promise<any>> = []
+    readonly upstream: MockUpstream
+    // lines logged by the worker to console
+    readonly logs: Array<string> = []
+
+    constructor(entry: string, options: WorkerOptions = {}) {
+        this.upstream = options.upstream || new MockUpstream()
+        let script = bundles.get(entry)
+        if (script === undefined) {
+            script = bundle(entry)
+            bundles.set(entry, script)
+        }
+        const scope: { [name: string]: any } = {
+            ...natives,
+            ...options.bindings,
+            fetch: this.upstream.fetch,
+            addEventListener: (type: string, listener: FetchListener) => {
+                if (type === 'fetch') {
+                    this.listeners.push(listener)
+                }
+            },
+            setTimeout,
+            clearTimeout,
+            console: this.console(),
+        }
+        scope.self = scope
+        // globals of the worker are given as parameters of the function running its script
+        const names = Object.keys(scope)
+        new Function(...names, script)(...names.map(name => scope[name]))
+        if (this.listeners.length === 0) {
+            throw new Error(`${entry} does not listen to fetch events`)
+        }
+    }
+
+    private console(): object {
+        const log = (...args: Array<any>) => {
+            this.logs.push(args.join(' '))
+        }
+        return {log, info: log, warn: log, error: log, debug: log}
+    }
+
+    /**
+     * Dispatch a fetch event for the request to the worker.
+     *
+     * @return {Promise<Response>} the response given to respondWith() by the worker
+     */
+    dispatch(input: string | Request, init?: RequestInit): Promise<Response> {
+        let response: Promise<Response> | undefined
+        const event = {
+            type: 'fetch',
+            request: new natives.Request(input, init),
+            respondWith: (r: Promise<Response> | Response) => {
+                response = Promise.resolve(r)
+            },
+            waitUntil: (p: Promise<any>) => {
+                this.pending.push(p)
+            },
+        }
+        for (let listener of this.listeners) {
+            listener(event)
+        }
+        if (response === undefined) {
+            return Promise.reject(new Error(`no response for ${event.request.url}`))
+        }
+        return response
+    }
+
+    /**
+     * Wait for the background tasks of dispatched events, including the ones they start in turn.
+     */
+    async settle(): Promise<void> {
+        while (this.pending.length > 0) {
+            await Promise.all(this.pending.splice(0))
+        }
+    }
+}
@@ -0,0 +1,283 @@
+import 'mocha'
+import * as chai from 'chai'
+import {createHmac} from 'crypto'
+import {natives, TestWorker} from './harness'
+
+const expect = chai.expect
+
+const config = `
+modules:
+  http_2xx:
+    prober: http
+    http:
+      valid_status_codes: [200]
+      fail_if_not_matches_regexp: ['"status":\\s*"ok"']
+      bearer_token_env: API_TOKEN
+  http_fast:
+    prober: http
+    timeout: 100ms
+  http_json:
+    prober: http
+    http:
+      json_assertions:
+        - {path: status, equals: ok}
+        - {path: db.lag, lt: 10}
+      json_gauges: [db.lag]
+  http_internal:
+    prober: http
+    http:
+      headers:
+        Authorization: Bearer l1teral
+        X-Api-Key: k3y
+        Accept: application/json
+  login_flow:
+    prober: http
+    scenario:
+      - name: login
+        url: /login
+        http:
+          method: POST
+          body: '{"user": "prober"}'
+        capture:
+          token: {json: token}
+      - name: profile
+        url: /users/me
+        http:
+          headers:
+            Authorization: 'Bearer \${token}'
+          fail_if_not_matches_regexp: ['"name"']
+history:
+  windows: [5m, 1h]
+`
+
+describe('http_prober worker', () => {
+    let worker: TestWorker
+
+    beforeEach(() => {
+        worker = new TestWorker('src/http_prober.ts', {
+            bindings: {
+                PROBER_CONFIG_STORE: {get: async (key: string) => key === 'config' ? config : null},
+                API_TOKEN: 'secret',
+            },
+        })
+    })
+
+    async function probe(module: string, target: string): Promise<string> {
+        const resp = await worker.dispatch(`https://worker.test/worker/http_prober?module=${module}&target=${target}`)
+        expect(resp.status).to.equal(200)
+        return resp.text()
+    }
+
+    it('should probe the target following redirects', async () => {
+        worker.upstream
+            .on('https://app.test/health', {status: 301, redirect: '/health/'})
+            .on('https://app.test/health/', {body: '{"status": "ok"}'})
+        const metrics = await probe('http_2xx', 'https://app.test/health')
+        expect(metrics).to.contain('probe_success 1\n')
+        expect(metrics).to.contain('probe_http_status_code 200\n')
+        expect(metrics).to.contain('probe_http_redirects 1\n')
+        expect(metrics).to.contain('probe_http_final_url{url="https://app.test/health/"} 1\n')
+        expect(worker.upstream.requests.map(r => r.headers.get('authorization')))
+            .to.deep.equal(['Bearer secret', 'Bearer secret'])
+    })
+    it('should measure the body length in bytes read', async () => {
+        // not valid UTF-8, which is decoded as U+FFFD replacement chars for validation
+        worker.upstream.on('https://app.test/bin', () => new natives.Response(new Uint8Array([0xff, 0xfe, 0x41])))
+        const metrics = await probe('http_fast', 'https://app.test/bin')
+        expect(metrics).to.contain('probe_success 1\n')
+        expect(metrics).to.contain('probe_http_uncompressed_body_length 3\n')
+        expect(metrics).to.contain('probe_http_content_length 3\n')
+    })
+    it('should fail the probe on validation', async () => {
+        worker.upstream.on('https://app.test/health', {body: '{"status": "degraded"}'})
+        const metrics = await probe('http_2xx', 'https://app.test/health')
+        expect(metrics).to.contain('probe_success 0\n')
+        expect(metrics).to.contain('probe_failed_due_to{reason="body_regex"} 1\n')
+    })
+    it('should fail the probe on fetch error', async () => {
+        worker.upstream.on('https://app.test/', {error: 'connection reset'})
+        const metrics = await probe('http_2xx', 'https://app.test/health')
+        expect(metrics).to.contain('probe_success 0\n')
+        expect(metrics).to.contain('probe_failed_due_to{reason="fetch_error"} 1\n')
+    })
+    it('should abort the probe on timeout', async () => {
+        worker.upstream.on('https://app.test/', {delay: 1000})
+        const metrics = await probe('http_fast', 'https://app.test/slow')
+        expect(metrics).to.contain('probe_success 0\n')
+        expect(metrics).to.contain('probe_failed_due_to{reason="timeout"} 1\n')
+        expect(worker.upstream.aborted).to.deep.equal(['https://app.test/slow'])
+    })
+    it('should check and export values of a JSON body', async () => {
+        worker.upstream.on('https://app.test/health', {body: '{"status": "ok", "db": {"lag": 12}}'})
+        const metrics = await probe('http_json', 'https://app.test/health')
+        expect(metrics).to.contain('probe_success 0\n')
+        expect(metrics).to.contain('probe_failed_due_to{reason="body_json"} 1\n')
+        expect(metrics).to.contain('probe_http_json_value{path="db.lag"} 12\n')
+
+        worker.upstream.on('https://app.test/health', {body: '{"hasOwnProperty": 1, "status": "ok", "db": {"lag": 1}}'})
+        expect(await probe('http_json', 'https://app.test/health')).to.contain('probe_success 1\n')
+
+        worker.upstream.on('https://app.test/health', {body: 'OK'})
+        const invalid = await probe('http_json', 'https://app.test/health')
+        expect(invalid).to.contain('probe_failed_due_to{reason="invalid_json"} 1\n')
+        expect(invalid).to.not.contain('probe_http_json_value{')
+    })
+    it('should run the steps of a scenario with captured values', async () => {
+        worker.upstream
+            .on('https://app.test/login', {body: '{"token": "t0k"}'})
+            .on('https://app.test/users/me', r => ({
+                status: r.headers.get('authorization') === 'Bearer t0k' ? 200 : 401,
+                body: '{"name": "prober"}',
+            }))
+        const metrics = await probe('login_flow', 'https://app.test/')
+        expect(metrics).to.contain('probe_success 1\n')
+        expect(metrics).to.contain('probe_step_success{step="login"} 1\n')
+        expect(metrics).to.contain('probe_step_success{step="profile"} 1\n')
+        expect(metrics).to.contain('probe_step_http_status_code{step="profile"} 200\n')
+        expect(worker.upstream.requests.map(r => `${r.method} ${r.url}`))
+            .to.deep.equal(['POST https://app.test/login', 'GET https://app.test/users/me'])
+    })
+    it('should stop the scenario at the first failed step', async () => {
+        worker.upstream.on('https://app.test/login', {body: '{"error": "locked"}'})
+        const metrics = await probe('login_flow', 'https://app.test/')
+        expect(metrics).to.contain('probe_success 0\n')
+        expect(metrics).to.contain('probe_failed_due_to{reason="capture"} 1\n')
+        expect(metrics).to.contain('probe_step_success{step="login"} 0\n')
+        expect(metrics).to.not.contain('step="profile"')
+        expect(worker.upstream.requests).to.have.length(1)
+    })
+    it('should fail the step using a captured value which is not allowed in a header', async () => {
+        worker.upstream.on('https://app.test/login', {body: '{"token": "t0k\\nen"}'})
+        const metrics = await probe('login_flow', 'https://app.test/')
+        expect(metrics).to.contain('probe_success 0\n')
+        expect(metrics).to.contain('probe_failed_due_to{reason="capture"} 1\n')
+        expect(metrics).to.contain('probe_step_success{step="login"} 1\n')
+        expect(metrics).to.contain('probe_step_success{step="profile"} 0\n')
+        expect(worker.upstream.requests).to.have.length(1)
+    })
+    it('should show the configuration loaded from the bound store', async () => {
+        const resp = await worker.dispatch('https://worker.test/worker/http_prober/config')
+        const modules = (await resp.json()).modules
+        expect(Object.keys(modules))
+            .to.deep.equal(['http_2xx', 'http_fast', 'http_json', 'http_internal', 'login_flow'])
+        expect(modules.login_flow.scenario.map((s: any) => s.name)).to.deep.equal(['login', 'profile'])
+        expect(worker.upstream.requests).to.have.length(0)
+    })
+    it('should redact sensitive headers of the modules', async () => {
+        const resp = await worker.dispatch('https://worker.test/worker/http_prober/config')
+        expect((await resp.json()).modules.http_internal.http.headers)
+            .to.deep.equal({'Authorization': '<secret>', 'X-Api-Key': '<secret>', 'Accept': 'application/json'})
+
+        worker.upstream.on('https://app.test/', {body: 'OK'})
+        const url = 'https://worker.test/worker/http_prober?module=http_internal&target=https://app.test/&debug=true'
+        const debug = await (await worker.dispatch(url)).text()
+        expect(debug).to.contain('"Authorization": "<secret>"')
+        expect(debug).to.contain('"Accept": "application/json"')
+        expect(debug).to.not.contain('l1teral').and.to.not.contain('k3y')
+        expect(worker.upstream.requests[0].headers.get('x-api-key')).to.equal('k3y')
+    })
+    it('should summarize the recorded probes of each target', async () => {
+        worker.upstream
+            .on('https://app.test/health', {body: '{"status": "ok"}'})
+            .on('https://app.test/down', {status: 503})
+        await probe('http_2xx', 'https://app.test/health')
+        await probe('http_2xx', 'https://app.test/health')
+        await probe('http_2xx', 'https://app.test/down')
+        // the results are recorded in the background
+        await worker.settle()
+
+        const url = 'https://worker.test/worker/http_prober/summary'
+        const summary = await (await worker.dispatch(`${url}?format=json&target=https://app.test/health`)).json()
+        expect(summary.windows).to.deep.equal(['5m', '1h'])
+        expect(summary.targets.map((t: any) => t.target)).to.deep.equal(['https://app.test/health'])
+        expect(summary.targets[0].windows['5m']).to.include({probes: 2, availability_percent: 100, last_failure: null})
+
+        const metrics = await (await worker.dispatch(url)).text()
+        expect(metrics).to.contain(
+            'probe_summary_availability_percent{module="http_2xx",target="https://app.test/down",window="1h"} 0\n')
+        expect(metrics).to.contain('probe_summary_last_failure_reason' +
+            '{module="http_2xx",target="https://app.test/down",window="5m",reason="status_code"} 1\n')
+        expect(metrics).to.contain(
+            'probe_summary_probes{module="http_2xx",target="https://app.test/health",window="5m"} 2\n')
+    })
+})
+
+describe('http_prober worker with access control', () => {
+    const accessConfig = `
+modules:
+  http_2xx:
+    prober: http
+access:
+  callers:
+    prometheus: {token_env: PROMETHEUS_TOKEN}
+    dashboard: {signing_key: s3cret}
+  rate_limit:
+    caller: {requests: 5, period: 1m}
+    target: {requests: 2, period: 1m}
+`
+    const url = 'https://worker.test/worker/http_prober?module=http_2xx&target=https://app.test/health'
+    let worker: TestWorker
+
+    beforeEach(() => {
+        worker = new TestWorker('src/http_prober.ts', {
+            bindings: {
+                PROBER_CONFIG_STORE: {get: async (key: string) => key === 'config' ? accessConfig : null},
+                PROMETHEUS_TOKEN: 'p-token',
+            },
+        })
+        worker.upstream.on('https://app.test/', {body: 'ok'})
+    })
+
+    it('should only allow authenticated callers', async () => {
+        const denied = await worker.dispatch(url)
+        expect(denied.status).to.equal(401)
+        expect(denied.headers.get('www-authenticate')).to.equal('Bearer realm="http_prober"')
+        expect(worker.upstream.requests).to.have.length(0)
+
+        const allowed = await worker.dispatch(url, {headers: {authorization: 'Bearer p-token'}})
+        expect(allowed.status).to.equal(200)
+        expect(await allowed.text()).to.contain('probe_success 1\n')
+    })
+    it('should allow signed queries', async () => {
+        const query = `${url}&caller=dashboard&expires=${Math.floor(Date.now() / 1000) + 60}`
+        const signature = createHmac('sha256', 's3cret').update(query.slice('https://worker.test'.length)).digest('hex')
+        const resp = await worker.dispatch(`${query}&signature=${signature}`)
+        expect(resp.status).to.equal(200)
+
+        const tampered = await worker.dispatch(`${query.replace('app.test', 'evil.test')}&signature=${signature}`)
+        expect(tampered.status).to.equal(401)
+        expect(await tampered.text()).to.equal('error: invalid signature\n')
+    })
+    it('should limit the rate of failed attempts of each client', async () => {
+        const headers = {'authorization': 'Bearer guess', 'cf-connecting-ip': '192.0.2.1'}
+        for (let i = 0; i < 5; i++) {
+            expect((await worker.dispatch(url, {headers})).status).to.equal(401)
+        }
+        const limited = await worker.dispatch(url, {headers})
+        expect(limited.status).to.equal(429)
+        expect(await limited.text()).to.equal('error: rate limit exceeded: at most 5 requests per 60s by caller\n')
+
+        const otherClient = {...headers, 'cf-connecting-ip': '192.0.2.2'}
+        expect((await worker.dispatch(url, {headers: otherClient})).status).to.equal(401)
+        const authenticated = {...headers, authorization: 'Bearer p-token'}
+        expect((await worker.dispatch(url, {headers: authenticated})).status).to.equal(200)
+    })
+    it('should limit the rate of probes of each target host', async () => {
+        const headers = {authorization: 'Bearer p-token'}
+        expect((await worker.dispatch(url, {headers})).status).to.equal(200)
+        expect((await worker.dispatch(`${url}/status`, {headers})).status).to.equal(200)
+        const limited = await worker.dispatch(url.replace('/health', '/other'), {headers})
+        expect(limited.status).to.equal(429)
+        expect(limited.headers.get('retry-after')).to.equal('30')
+        expect(worker.upstream.requests).to.have.length(2)
+
+        const other = url.replace('app.test', 'other.test')
+        worker.upstream.on('https://other.test/', {body: 'ok'})
+        expect((await worker.dispatch(other, {headers})).status).to.equal(200)
+        // the caller has made 5 requests, including the limited one
+        expect((await worker.dispatch(other, {headers})).status).to.equal(200)
+        const exceeded = await worker.dispatch('https://worker.test/worker/http_prober/config', {headers})
+        expect(exceeded.status).to.equal(429)
+        expect(await exceeded.text()).to.equal('error: rate limit exceeded: at most 5 requests per 60s by caller\n')
+    })
+})
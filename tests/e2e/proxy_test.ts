@@ -0,0 +1,73 @@
+import 'mocha'
+import * as chai from 'chai'
+import {TestWorker} from './harness'
+
+const expect = chai.expect
+
+describe('proxy worker', () => {
+    let worker: TestWorker
+
+    beforeEach(() => {
+        worker = new TestWorker('src/proxy.ts')
+        worker.upstream
+            .on('https://github.com/lebinh', {
+                headers: {'content-type': 'text/html; charset=utf-8', 'set-cookie': 'id=1'},
+                body: '<a href="/lebinh/cloudflare-workers">repo</a>',
+            })
+            .on('https://github.com/old', {status: 301, redirect: 'https://github.com/new'})
+            .on('https://assets.githubassets.com/app.css', {
+                headers: {'content-type': 'text/css'},
+                body: '.logo { background: url(/logo.png) }',
+            })
+    })
+
+    it('should proxy the request and rewrite the response', async () => {
+        const resp = await worker.dispatch('https://worker.test/worker/proxy/github.com/lebinh', {
+            headers: {'cookie': 'session=secret', 'accept': 'text/html'},
+        })
+        expect(resp.status).to.equal(200)
+        expect(resp.headers.get('x-proxied-by')).to.equal('cloudflare-workers')
+        expect(resp.headers.get('set-cookie')).to.equal(null)
+        expect(await resp.text())
+            .to.equal('<a href="/worker/proxy/https://github.com/lebinh/cloudflare-workers">repo</a>')
+
+        const [forwarded] = worker.upstream.requests
+        expect(forwarded.url).to.equal('https://github.com/lebinh')
+        expect(forwarded.headers.get('cookie')).to.equal(null)
+        expect(forwarded.headers.get('accept')).to.equal('text/html')
+    })
+    it('should return redirects to the client through the proxy', async () => {
+        const resp = await worker.dispatch('https://worker.test/worker/proxy/github.com/old')
+        expect(resp.status).to.equal(301)
+        expect(resp.headers.get('location')).to.equal('/worker/proxy/https://github.com/new')
+        expect(worker.upstream.requests).to.have.length(1)
+    })
+    it('should reject hosts which are not allowed', async () => {
+        const resp = await worker.dispatch('https://worker.test/worker/proxy/example.com/')
+        expect(resp.status).to.equal(403)
+        expect(await resp.text()).to.equal('error: host is not allowed: example.com\n')
+        expect(worker.upstream.requests).to.have.length(0)
+    })
+    it('should serve cached responses', async () => {
+        const url = 'https://worker.test/worker/proxy/assets.githubassets.com/app.css'
+        const css = '.logo { background: url(/worker/proxy/https://assets.githubassets.com/logo.png) }'
+        const miss = await worker.dispatch(url)
+        expect(miss.headers.get('x-proxy-cache')).to.equal('MISS')
+        expect(await miss.text()).to.equal(css)
+        // the response is stored in the background
+        await worker.settle()
+
+        const hit = await worker.dispatch(url)
+        expect(hit.headers.get('x-proxy-cache')).to.equal('HIT')
+        expect(await hit.text()).to.equal(css)
+        expect(worker.upstream.requests).to.have.length(1)
+    })
+    it('should return 500 for an upstream error', async () => {
+        worker.upstream.on('https://github.com/', {error: 'connection refused'})
+        const resp = await worker.dispatch('https://worker.test/worker/proxy/github.com/lebinh')
+        expect(resp.status).to.equal(500)
+        expect(await resp.text()).to.equal('error: connection refused\n')
+        expect(worker.logs).to.deep.equal([
+            'Failed to handle GET https://worker.test/worker/proxy/github.com/lebinh: TypeError: connection refused'])
+    })
+})
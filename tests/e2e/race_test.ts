@@ -0,0 +1,75 @@
+import 'mocha'
+import * as chai from 'chai'
+import {TestWorker} from './harness'
+
+const expect = chai.expect
+
+describe('race worker', () => {
+    const url = 'https://worker.test/worker/race/debian/dists/stable/Release'
+    let worker: TestWorker
+
+    beforeEach(() => {
+        worker = new TestWorker('src/race.ts')
+    })
+
+    it('should hedge the slow primary origin and abort it once another one wins', async () => {
+        worker.upstream
+            .on('https://deb.debian.org/', {delay: 300, body: 'primary'})
+            .on('https://mirrors.kernel.org/', {delay: 10, body: 'kernel'})
+            .on('https://ftp.us.debian.org/', {delay: 10, body: 'us'})
+        const resp = await worker.dispatch(url)
+        expect(resp.status).to.equal(200)
+        expect(await resp.text()).to.equal('kernel')
+        expect(resp.headers.get('x-race-winner')).to.match(/^https:\/\/mirrors\.kernel\.org\/debian\/; elapsed=\d+ms$/)
+        expect(worker.upstream.requests.map(r => r.url)).to.deep.equal([
+            'https://deb.debian.org/debian/dists/stable/Release',
+            'https://mirrors.kernel.org/debian/dists/stable/Release',
+        ])
+        expect(worker.upstream.aborted).to.deep.equal(['https://deb.debian.org/debian/dists/stable/Release'])
+    })
+    it('should forward method, headers and body to the origins', async () => {
+        worker.upstream.on('https://deb.debian.org/', {status: 201})
+        const resp = await worker.dispatch(url + '?v=1', {method: 'PUT', headers: {'x-test': 'yes'}, body: 'data'})
+        expect(resp.status).to.equal(201)
+        const [forwarded] = worker.upstream.requests
+        expect(forwarded.url).to.equal('https://deb.debian.org/debian/dists/stable/Release?v=1')
+        expect(forwarded.method).to.equal('PUT')
+        expect(forwarded.headers.get('x-test')).to.equal('yes')
+        expect(await forwarded.text()).to.equal('data')
+    })
+    it('should summarize the outcome of each origin when none is accepted', async () => {
+        worker.upstream
+            .on('https://deb.debian.org/', {error: 'connection refused'})
+            .on('https://mirrors.kernel.org/', {status: 503})
+            .on('https://ftp.us.debian.org/', {status: 404})
+        const resp = await worker.dispatch(url)
+        expect(resp.status).to.equal(502)
+        const lines = (await resp.text()).split('\n')
+        expect(lines[0]).to.equal('No acceptable response from origins:')
+        expect(lines.slice(1)).to.have.members([
+            'https://deb.debian.org/debian/: fetch error: TypeError: connection refused',
+            'https://mirrors.kernel.org/debian/: status 503',
+            'https://ftp.us.debian.org/debian/: status 404',
+            '',
+        ])
+    })
+    it('should load the stats of origins from the bound store', async () => {
+        const records = {'https://mirrors.kernel.org/debian/': {latencies: [20, 30], results: [true, true]}}
+        worker = new TestWorker('src/race.ts', {
+            bindings: {
+                RACE_STATS_STORE: {
+                    get: async (key: string) => key === 'stats' ? JSON.stringify(records) : null,
+                    put: async () => undefined,
+                },
+            },
+        })
+        const stats = await (await worker.dispatch('https://worker.test/worker/race/stats')).json()
+        expect(Object.keys(stats.origins)).to.deep.equal(['https://mirrors.kernel.org/debian/'])
+        expect(stats.origins['https://mirrors.kernel.org/debian/']).to.include({requests: 2, error_rate: 0})
+    })
+    it('should return 404 for a path without origin pool', async () => {
+        const resp = await worker.dispatch('https://worker.test/worker/race/ubuntu/')
+        expect(resp.status).to.equal(404)
+        expect(worker.upstream.requests).to.have.length(0)
+    })
+})
@@ -0,0 +1,149 @@
+import 'mocha'
+import * as chai from 'chai'
+import {Headers, Request, Response} from 'whatwg-fetch'
+import {URL} from 'url'
+import {
+    bytesResponse,
+    delayResponse,
+    processRequest,
+    redirectResponse,
+    renderText,
+    requestInfo,
+    responseHeadersResponse,
+    responseInfo,
+    statusResponse,
+} from '../src/echo'
+
+const expect = chai.expect
+
+declare var global: object
+Object.assign(global, {Request, Response, Headers, URL})
+
+describe('requestInfo function', () => {
+    it('should return method, URL, query, headers and body of the request', async () => {
+        const r = new Request('https://example.com/echo/request?a=1&b=2&b=3', {
+            method: 'POST',
+            headers: {'content-type': 'text/plain'},
+            body: 'hello',
+        })
+        expect(await requestInfo(r)).to.deep.equal({
+            method: 'POST',
+            url: 'https://example.com/echo/request?a=1&b=2&b=3',
+            query: {a: '1', b: ['2', '3']},
+            headers: {'content-type': 'text/plain'},
+            body: 'hello',
+            body_size: 5,
+            body_truncated: false,
+            cf: null,
+        })
+    })
+    it('should truncate long body', async () => {
+        const r = new Request('https://example.com/echo/request', {method: 'POST', body: 'é'.repeat(40000)})
+        const info = await requestInfo(r)
+        expect(info.body_size).to.equal(80000)
+        expect(info.body_truncated).to.equal(true)
+        expect(info.body).to.equal('é'.repeat(32768))
+    })
+})
+
+describe('responseInfo function', () => {
+    it('should follow and report redirects', async () => {
+        const responses: { [url: string]: Response } = {
+            'https://example.com/a': new Response('', {status: 301, headers: {location: '/b'}}),
+            'https://example.com/b': new Response('', {status: 200, headers: {'x-foo': 'bar'}}),
+        }
+        const info = await responseInfo(new Request('https://example.com/a'), async r => responses[r.url])
+        expect(info).to.include({status: 200, url: 'https://example.com/b', redirected: true})
+        expect(info.headers).to.have.property('x-foo', 'bar')
+        expect(info.redirects).to.have.length(1)
+        expect(info.redirects[0])
+            .to.include({status: 301, url: 'https://example.com/a', location: 'https://example.com/b'})
+    })
+})
+
+describe('renderText function', () => {
+    it('should render one line by property', () => {
+        expect(renderText({a: 1, b: {c: 'd'}, e: ['f', 'g'], h: [{i: 2}]}))
+            .to.equal('a: 1\nb.c: d\ne: f\ne: g\nh.0.i: 2\n')
+        expect(renderText('GET')).to.equal('GET\n')
+    })
+})
+
+describe('processRequest function', () => {
+    const fetcher = async () => new Response('', {status: 404, headers: {'x-foo': 'bar'}})
+
+    it('should echo request headers as text', async () => {
+        const r = new Request('https://example.com/echo/request/headers', {headers: {accept: '*/*'}})
+        expect(await (await processRequest(r, fetcher)).text()).to.equal('accept: */*\n')
+    })
+    it('should echo a part of the response as JSON', async () => {
+        const r = new Request('https://example.com/echo/response/status?format=json')
+        const resp = await processRequest(r, fetcher)
+        expect(resp.headers.get('content-type')).to.equal('application/json')
+        expect(await resp.json()).to.equal(404)
+    })
+    it('should route httpbin-like paths', async () => {
+        const resp = await processRequest(new Request('https://example.com/echo/status/418'), fetcher)
+        expect(resp.status).to.equal(418)
+    })
+    it('should return 404 for unknown paths and 400 for unknown parts', async () => {
+        expect(await processRequest(new Request('https://example.com/echo/other'), fetcher))
+            .to.have.property('status', 404)
+        expect(await processRequest(new Request('https://example.com/echo/request/other'), fetcher))
+            .to.have.property('status', 400)
+        expect(await processRequest(new Request('https://example.com/echo/status/abc'), fetcher))
+            .to.have.property('status', 400)
+    })
+})
+
+describe('statusResponse function', () => {
+    it('should return response with the status code', () => {
+        expect(statusResponse(503).status).to.equal(503)
+        expect(statusResponse(204).status).to.equal(204)
+        expect(statusResponse(99).status).to.equal(400)
+    })
+})
+
+describe('delayResponse function', () => {
+    it('should return the request info after the delay', async () => {
+        const start = Date.now()
+        const resp = await delayResponse(new Request('https://example.com/echo/delay/20?format=json'), 20)
+        expect(Date.now() - start).to.be.at.least(20)
+        expect(await resp.json()).to.have.property('method', 'GET')
+    })
+    it('should not delay too long', async () => {
+        expect(await delayResponse(new Request('https://example.com/echo/delay/60000'), 60000))
+            .to.have.property('status', 400)
+    })
+})
+
+describe('bytesResponse function', () => {
+    it('should not return too many bytes', () => {
+        // whatwg-fetch doesn't support binary bodies, so only the limit is tested here
+        expect(bytesResponse(20 * 1024 * 1024).status).to.equal(400)
+    })
+})
+
+describe('redirectResponse function', () => {
+    it('should redirect n times then to the request info', () => {
+        const resp = redirectResponse(new Request('https://example.com/echo/redirect/3?a=1'), 3)
+        expect(resp.status).to.equal(302)
+        expect(resp.headers.get('location')).to.equal('/echo/redirect/2?a=1')
+        expect(redirectResponse(new Request('https://example.com/echo/redirect/1'), 1).headers.get('location'))
+            .to.equal('/echo/request')
+    })
+})
+
+describe('responseHeadersResponse function', () => {
+    it('should return headers of the query parameters', async () => {
+        const resp = responseHeadersResponse(new Request('https://example.com/echo/response-headers?x-a=1&x-b=2'))
+        expect(resp.headers.get('x-a')).to.equal('1')
+        expect(resp.headers.get('x-b')).to.equal('2')
+        expect(await resp.text()).to.equal('x-a: 1\nx-b: 2\n')
+    })
+    it('should return 400 for an invalid header name', async () => {
+        const resp = responseHeadersResponse(new Request('https://example.com/echo/response-headers?x-a=1&a%20b=2'))
+        expect(resp.status).to.equal(400)
+        expect(await resp.text()).to.equal('error: invalid header: "a b"\n')
+    })
+})
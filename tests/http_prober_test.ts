@@ -3,14 +3,38 @@ import * as chai from 'chai'
 import * as chaiAsPromised from 'chai-as-promised'
 import {Headers, Request, Response} from 'whatwg-fetch'
 import {URL} from 'url'
+import {createHmac} from 'crypto'
 import {
+    authenticate,
     buildRequest,
     buildResponse,
+    buildStepRequest,
+    captureValues,
+    ConfigLoader,
+    escapeLabelValue,
+    ExpositionFormat,
     HttpProbe,
+    HttpScenario,
     HttpStatusCodeClass,
+    labelMetrics,
+    lookupJsonPath,
+    mapConcurrently,
+    MemoryResultStore,
+    mergeMetrics,
+    negotiateFormat,
+    parseBatchParams,
+    parseConfig,
+    parseDuration,
     parseParams,
+    probeTimeout,
+    redirectRequest,
     ProbeResult,
+    RateLimiter,
+    renderMetrics,
+    signedMessage,
+    summarize,
     validateResponse,
+    validateSsl,
 } from '../src/http_prober';
 
 chai.use(chaiAsPromised)
@@ -26,6 +50,13 @@ describe('parseParams function', () => {
         expect(err).to.equal(null)
         expect(params!.module).to.equal('foo')
         expect(params!.target).to.equal('bar')
+        expect(params!.debug).to.equal(false)
+    })
+    it('should return debug param', () => {
+        const r = new Request('https://example.com?module=foo&target=bar&debug=true')
+        const [params, err] = parseParams(r)
+        expect(err).to.equal(null)
+        expect(params!.debug).to.equal(true)
     })
     it('should return error if module param is missing', () => {
         const r = new Request('https://example.com?target=bar')
@@ -108,6 +139,33 @@ describe('buildRequest function', () => {
         expect(r).to.equal(null)
         expect(err!.message).to.contain('target is not allowed in probe config')
     })
+    it('should set basic auth header', () => {
+        const p = new HttpProbe({basic_auth: {username: 'user', password: 'pass'}})
+        const [r, err] = buildRequest(p, 'http://example.com')
+        expect(err).to.equal(null)
+        expect(r!.headers.get('authorization')).to.equal('Basic dXNlcjpwYXNz')
+    })
+    it('should set bearer token header', () => {
+        const p = new HttpProbe({bearer_token: 'token'})
+        const [r, err] = buildRequest(p, 'http://example.com')
+        expect(err).to.equal(null)
+        expect(r!.headers.get('authorization')).to.equal('Bearer token')
+    })
+    it('should resolve secrets from environment bindings', () => {
+        const env = {PROBE_PASSWORD: 'pass', PROBE_TOKEN: 'token'}
+        const basic = new HttpProbe({basic_auth: {username: 'user', password_env: 'PROBE_PASSWORD'}})
+        expect(buildRequest(basic, 'http://example.com', env)[0]!.headers.get('authorization'))
+            .to.equal('Basic dXNlcjpwYXNz')
+        const bearer = new HttpProbe({bearer_token_env: 'PROBE_TOKEN'})
+        expect(buildRequest(bearer, 'http://example.com', env)[0]!.headers.get('authorization'))
+            .to.equal('Bearer token')
+    })
+    it('should return error if environment binding is not set', () => {
+        const p = new HttpProbe({bearer_token_env: 'PROBE_TOKEN'})
+        const [r, err] = buildRequest(p, 'http://example.com', {})
+        expect(r).to.equal(null)
+        expect(err!.message).to.contain('environment binding is not set: PROBE_TOKEN')
+    })
 })
 
 describe('validateResponse function', () => {
@@ -115,19 +173,19 @@ describe('validateResponse function', () => {
         const p = new HttpProbe({valid_status_codes: [200]})
         const r = new Response('', {status: 200})
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(true)
+        return expect(valid).to.eventually.have.property('success', true)
     })
     it('should return false for invalid status code', () => {
         const p = new HttpProbe({valid_status_codes: [200]})
         const r = new Response('', {status: 400})
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(false)
+        return expect(valid).to.eventually.have.property('success', false)
     })
     it('should return true for valid status class', () => {
         const p = new HttpProbe({})
         const r = new Response('', {status: 201})
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(true)
+        return expect(valid).to.eventually.have.property('success', true)
     })
     it('should return false for invalid status class', () => {
         const p = new HttpProbe({
@@ -135,7 +193,7 @@ describe('validateResponse function', () => {
         })
         const r = new Response('', {status: 301})
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(false)
+        return expect(valid).to.eventually.have.property('success', false)
     })
     it('should return false for matching fail_if_matches_regexp', () => {
         const p = new HttpProbe({
@@ -143,7 +201,7 @@ describe('validateResponse function', () => {
         })
         const r = new Response('error')
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(false)
+        return expect(valid).to.eventually.have.property('success', false)
     })
     it('should return true for non-matching fail_if_matches_regexp', () => {
         const p = new HttpProbe({
@@ -151,7 +209,7 @@ describe('validateResponse function', () => {
         })
         const r = new Response('ok')
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(true)
+        return expect(valid).to.eventually.have.property('success', true)
     })
     it('should return false for non-matching fail_if_not_matches_regexp', () => {
         const p = new HttpProbe({
@@ -159,7 +217,7 @@ describe('validateResponse function', () => {
         })
         const r = new Response('error')
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(false)
+        return expect(valid).to.eventually.have.property('success', false)
     })
     it('should return true for matching fail_if_not_matches_regexp', () => {
         const p = new HttpProbe({
@@ -167,7 +225,103 @@ describe('validateResponse function', () => {
         })
         const r = new Response('ok')
         const valid = validateResponse(p, r)
-        return expect(valid).to.eventually.equal(true)
+        return expect(valid).to.eventually.have.property('success', true)
+    })
+    it('should return false for matching fail_if_header_matches', () => {
+        const p = new HttpProbe({
+            fail_if_header_matches: [{header: 'Server', regexp: /apache/i}]
+        })
+        const r = new Response('', {headers: {'server': 'Apache/2.4'}})
+        const valid = validateResponse(p, r)
+        return expect(valid).to.eventually.have.property('success', false)
+    })
+    it('should return true for non-matching fail_if_header_matches', () => {
+        const p = new HttpProbe({
+            fail_if_header_matches: [{header: 'Server', regexp: 'apache'}]
+        })
+        const r = new Response('', {headers: {'server': 'cloudflare'}})
+        const valid = validateResponse(p, r)
+        return expect(valid).to.eventually.have.property('success', true)
+    })
+    it('should return false for non-matching fail_if_header_not_matches', () => {
+        const p = new HttpProbe({
+            fail_if_header_not_matches: [{header: 'Cache-Control', regexp: 'max-age=\\d+'}]
+        })
+        const r = new Response('', {headers: {'cache-control': 'no-store'}})
+        const valid = validateResponse(p, r)
+        return expect(valid).to.eventually.have.property('success', false)
+    })
+    it('should return true for matching fail_if_header_not_matches', () => {
+        const p = new HttpProbe({
+            fail_if_header_not_matches: [{header: 'Cache-Control', regexp: 'max-age=\\d+'}]
+        })
+        const r = new Response('', {headers: {'cache-control': 'public, max-age=3600'}})
+        const valid = validateResponse(p, r)
+        return expect(valid).to.eventually.have.property('success', true)
+    })
+    it('should return false for missing header', () => {
+        const p = new HttpProbe({
+            fail_if_header_not_matches: [{header: 'Strict-Transport-Security', regexp: 'max-age'}]
+        })
+        const r = new Response('')
+        const valid = validateResponse(p, r)
+        return expect(valid).to.eventually.have.property('success', false)
+    })
+    it('should return true for missing header if allow_missing is set', () => {
+        const p = new HttpProbe({
+            fail_if_header_matches: [{header: 'Set-Cookie', regexp: '.*', allow_missing: true}],
+            fail_if_header_not_matches: [{header: 'Strict-Transport-Security', regexp: 'max-age', allow_missing: true}]
+        })
+        const r = new Response('')
+        const valid = validateResponse(p, r)
+        return expect(valid).to.eventually.have.property('success', true)
+    })
+    it('should return all failed checks with reasons', async () => {
+        const p = new HttpProbe({
+            valid_status_codes: [200],
+            fail_if_header_not_matches: [{header: 'Cache-Control', regexp: 'max-age'}],
+            fail_if_matches_regexp: [/error/],
+            fail_if_not_matches_regexp: [/ok/],
+        })
+        const r = new Response('error', {status: 500, headers: {'cache-control': 'max-age=60'}})
+        const result = await validateResponse(p, r)
+        expect(result.success).to.equal(false)
+        expect(result.steps.map(s => [s.reason, s.passed])).to.deep.equal([
+            ['status_code', false],
+            ['header_regex', true],
+            ['body_regex', false],
+            ['body_regex', false],
+        ])
+        expect(result.steps[0].message).to.equal('status code 500 is not one of the valid status codes: 200')
+        expect(result.steps[2].message).to.equal('body matched fail_if_matches_regexp /error/')
+    })
+    it('should check JSON assertions', async () => {
+        const p = new HttpProbe({
+            json_assertions: [
+                {path: 'status', equals: 'ok'},
+                {path: 'db.lag', gte: 0, lt: 10},
+                {path: 'db.replicas', exists: true},
+                {path: 'error', exists: false},
+            ],
+        })
+        const ok = await validateResponse(p, new Response('{"status": "ok", "db": {"lag": 3, "replicas": [1]}}'))
+        expect(ok.steps.map(s => s.reason)).to.deep.equal(['status_code', ...Array(5).fill('body_json')])
+        expect(ok.success).to.equal(true)
+
+        const failed = await validateResponse(p, new Response('{"status": "degraded", "db": {"lag": 12}}'))
+        expect(failed.success).to.equal(false)
+        expect(failed.steps.filter(s => !s.passed).map(s => s.message)).to.deep.equal([
+            'value at status "degraded" does not equal "ok"',
+            'value at db.lag 12 is not < 10',
+            'value at db.replicas is missing (exists: true)',
+        ])
+    })
+    it('should fail for invalid JSON body with JSON assertions', async () => {
+        const p = new HttpProbe({json_assertions: [{path: 'status', equals: 'ok'}]})
+        const result = await validateResponse(p, new Response('<html>'))
+        expect(result.success).to.equal(false)
+        expect(result.steps[1].reason).to.equal('invalid_json')
+        expect(result.steps[1].message).to.contain('body is not valid JSON')
     })
 })
 
@@ -196,5 +350,854 @@ describe('buildResponse function', () => {
             .and.contain('probe_http_status_code ')
             .and.contain('probe_http_redirected')
             .and.contain('probe_http_content_length')
+            .and.contain('probe_http_uncompressed_body_length')
+    })
+    it('should return duration of each phase', () => {
+        const pr: ProbeResult = {
+            probe_success: true,
+            probe_http_duration_seconds: {
+                processing: 0.1,
+                transfer: 0.02,
+            }
+        }
+        const r = buildResponse(pr)
+        return expect(r.text()).to.eventually.contain('probe_http_duration_seconds{phase="processing"} 0.1\n')
+            .and.contain('probe_http_duration_seconds{phase="transfer"} 0.02\n')
+    })
+    it('should return failure reasons', () => {
+        const pr: ProbeResult = {
+            probe_success: false,
+            probe_failed_due_to: ['body_regex']
+        }
+        const r = buildResponse(pr)
+        return expect(r.text()).to.eventually.contain('probe_failed_due_to_regex 1\n')
+            .and.contain('probe_failed_due_to{reason="status_code"} 0\n')
+            .and.contain('probe_failed_due_to{reason="body_regex"} 1\n')
+    })
+    it('should return redirect and SSL metrics', () => {
+        const pr: ProbeResult = {
+            probe_success: true,
+            probe_http_redirects: 2,
+            probe_http_ssl: true,
+            probe_http_final_url: 'https://example.com/',
+        }
+        const r = buildResponse(pr)
+        return expect(r.text()).to.eventually.contain('probe_http_redirects 2\n')
+            .and.contain('probe_http_ssl 1\n')
+            .and.contain('probe_http_final_url{url="https://example.com/"} 1\n')
+    })
+    it('should return values of JSON gauges', () => {
+        const r = buildResponse({probe_success: true, probe_http_json_values: {'db.lag': 3, 'queue[0]': 1.5}})
+        return expect(r.text()).to.eventually.contain('probe_http_json_value{path="db.lag"} 3\n')
+            .and.contain('probe_http_json_value{path="queue[0]"} 1.5\n')
     })
-})
\ No newline at end of file
+    it('should use Prometheus text format content type by default', () => {
+        const r = buildResponse({probe_success: true})
+        expect(r.headers.get('content-type')).to.equal('text/plain; version=0.0.4; charset=utf-8')
+    })
+    it('should use OpenMetrics content type and end with EOF if asked for', () => {
+        const r = buildResponse({probe_success: true}, ExpositionFormat.OpenMetrics)
+        expect(r.headers.get('content-type')).to.contain('application/openmetrics-text')
+        return expect(r.text()).to.eventually.match(/# EOF\n$/)
+    })
+})
+
+describe('negotiateFormat function', () => {
+    it('should use Prometheus text format by default', () => {
+        expect(negotiateFormat(null)).to.equal(ExpositionFormat.Prometheus)
+        expect(negotiateFormat('text/plain;version=0.0.4;q=0.5,*/*;q=0.1')).to.equal(ExpositionFormat.Prometheus)
+    })
+    it('should use OpenMetrics if it is accepted', () => {
+        const accept = 'application/openmetrics-text;version=1.0.0,text/plain;version=0.0.4;q=0.5,*/*;q=0.1'
+        expect(negotiateFormat(accept)).to.equal(ExpositionFormat.OpenMetrics)
+    })
+})
+
+describe('renderMetrics function', () => {
+    it('should render HELP and TYPE lines for each metric', () => {
+        const output = renderMetrics([{name: 'foo', help: 'Foo help', type: 'gauge', samples: [{value: 1}]}])
+        expect(output).to.equal('# HELP foo Foo help\n# TYPE foo gauge\nfoo 1\n')
+    })
+    it('should render labels of each sample', () => {
+        const output = renderMetrics([{
+            name: 'foo', help: 'Foo help', type: 'gauge', samples: [
+                {labels: {a: 'x', b: 'y'}, value: 1},
+                {labels: {a: 'z'}, value: 2},
+            ]
+        }])
+        expect(output).to.contain('foo{a="x",b="y"} 1\n')
+            .and.contain('foo{a="z"} 2\n')
+    })
+    it('should render special float values', () => {
+        const output = renderMetrics([{
+            name: 'foo', help: 'Foo help', type: 'gauge', samples: [
+                {labels: {a: '1'}, value: NaN},
+                {labels: {a: '2'}, value: Infinity},
+                {labels: {a: '3'}, value: -Infinity},
+            ]
+        }])
+        expect(output).to.contain('foo{a="1"} NaN\n')
+            .and.contain('foo{a="2"} +Inf\n')
+            .and.contain('foo{a="3"} -Inf\n')
+    })
+    it('should escape HELP text', () => {
+        const output = renderMetrics([{name: 'foo', help: 'a\\b\nc', type: 'gauge', samples: []}])
+        expect(output).to.contain('# HELP foo a\\\\b\\nc\n')
+    })
+    it('should render OpenMetrics counters and untyped metrics', () => {
+        const output = renderMetrics([
+            {name: 'foo_total', help: 'Foo help', type: 'counter', samples: [{value: 1}]},
+            {name: 'bar', help: 'Bar help', type: 'untyped', samples: [{value: 2}]},
+        ], ExpositionFormat.OpenMetrics)
+        expect(output).to.equal(
+            '# HELP foo Foo help\n# TYPE foo counter\nfoo_total 1\n' +
+            '# HELP bar Bar help\n# TYPE bar unknown\nbar 2\n' +
+            '# EOF\n')
+    })
+})
+
+describe('escapeLabelValue function', () => {
+    it('should escape backslash, double-quote and line feed', () => {
+        expect(escapeLabelValue('plain')).to.equal('plain')
+        expect(escapeLabelValue('a\\b')).to.equal('a\\\\b')
+        expect(escapeLabelValue('say "hi"')).to.equal('say \\"hi\\"')
+        expect(escapeLabelValue('a\nb')).to.equal('a\\nb')
+    })
+})
+
+describe('HttpProbe class', () => {
+    it('should accept regexp pattern strings', () => {
+        const p = new HttpProbe({fail_if_matches_regexp: ['err(or)?'], fail_if_not_matches_regexp: [/ok/]})
+        expect(p.failIfMatchesRegexp[0].test('error')).to.equal(true)
+        expect(p.failIfNotMatchesRegexp[0].test('ok')).to.equal(true)
+    })
+    it('should redact secrets when serialized', () => {
+        const basic = JSON.parse(JSON.stringify(new HttpProbe({basic_auth: {username: 'user', password: 'pass'}})))
+        expect(basic.basic_auth).to.deep.equal({username: 'user', password: '<secret>'})
+        const bearer = JSON.parse(JSON.stringify(new HttpProbe({bearer_token_env: 'PROBE_TOKEN'})))
+        expect(bearer.bearer_token).to.equal(undefined)
+        expect(bearer.bearer_token_env).to.equal('PROBE_TOKEN')
+    })
+    it('should serialize effective options with config keys', () => {
+        const p = new HttpProbe({fail_if_matches_regexp: [/error/]})
+        const json = JSON.parse(JSON.stringify(p))
+        expect(json.method).to.equal('GET')
+        expect(json.valid_status_codes).to.equal('2xx')
+        expect(json.fail_if_matches_regexp).to.deep.equal(['error'])
+    })
+})
+
+describe('parseConfig function', () => {
+    it('should parse blackbox-exporter style config', () => {
+        const [config, err] = parseConfig(`
+modules:
+  http_2xx:
+    prober: http
+    http:
+      method: post
+      headers:
+        Content-Type: application/json
+      body: '{}'
+      valid_status_codes: [200, 204]
+      fail_if_body_matches_regexp: ['error']
+      fail_if_not_matches_regexp:
+        - '"status":\\s*"ok"'
+  http_default:
+    prober: http
+`)
+        expect(err).to.equal(null)
+        const p = config!.modules['http_2xx']
+        expect(p.method).to.equal('POST')
+        expect(p.headers).to.deep.equal({'Content-Type': 'application/json'})
+        expect(p.body).to.equal('{}')
+        expect(p.validStatusCodes).to.deep.equal([200, 204])
+        expect(p.failIfMatchesRegexp[0].test('an error')).to.equal(true)
+        expect(p.failIfNotMatchesRegexp[0].test('{"status": "ok"}')).to.equal(true)
+        expect(config!.modules['http_default'].method).to.equal('GET')
+    })
+    it('should accept the options of blackbox-exporter which have no effect', () => {
+        const [config, err] = parseConfig(`
+modules:
+  m:
+    prober: http
+    http:
+      valid_http_versions: [HTTP/1.1, HTTP/2.0]
+      preferred_ip_protocol: ip4
+      tls_config:
+        insecure_skip_verify: false
+      follow_redirects: false
+`)
+        expect(err).to.equal(null)
+        expect(config!.modules['m'].noFollowRedirects).to.equal(true)
+        const both = 'modules:\n  m:\n    http: {follow_redirects: true, no_follow_redirects: true}\n'
+        const [, conflict] = parseConfig(both)
+        expect(conflict!.message).to.contain('at most one of no_follow_redirects and follow_redirects can be set')
+    })
+    it('should parse status code class', () => {
+        const [config, err] = parseConfig('{"modules": {"m": {"http": {"valid_status_codes": "3xx"}}}}')
+        expect(err).to.equal(null)
+        expect(config!.modules['m'].validStatusCodes).to.equal(HttpStatusCodeClass.Http_3xx)
+    })
+    it('should parse allowed targets as strings or RegExps', () => {
+        const [config, err] = parseConfig(`
+modules:
+  m:
+    http:
+      allowed_targets: ['https://a.com/', {regexp: '^https://([a-z]+\\.)?b\\.com/'}]
+`)
+        expect(err).to.equal(null)
+        const p = config!.modules['m'] as HttpProbe
+        expect(p.allowedTargets[0]).to.equal('https://a.com/')
+        expect((p.allowedTargets[1] as RegExp).test('https://api.b.com/health')).to.equal(true)
+        // the serialized config can be parsed again
+        const allowedTargets = JSON.parse(JSON.stringify(p)).allowed_targets
+        const [reparsed] = parseConfig(JSON.stringify({modules: {m: {http: {allowed_targets: allowedTargets}}}}))
+        expect(reparsed!.modules['m'].allowedTargets).to.deep.equal(p.allowedTargets)
+        const [, invalid] = parseConfig('modules:\n  m:\n    http:\n      allowed_targets: [{pattern: a}]\n')
+        expect(invalid!.message).to.contain('invalid http option allowed_targets: expected a string or a ' +
+            '{regexp: pattern} mapping')
+    })
+    it('should default to 2xx status codes for an empty list', async () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    http:\n      valid_status_codes: []\n')
+        expect(err).to.equal(null)
+        const p = config!.modules['m'] as HttpProbe
+        expect(p.validStatusCodes).to.equal(HttpStatusCodeClass.Http_2xx)
+        expect(await validateResponse(p, new Response('', {status: 200}))).to.have.property('success', true)
+        expect(new HttpProbe({valid_status_codes: HttpStatusCodeClass.Http_1xx}).validStatusCodes)
+            .to.equal(HttpStatusCodeClass.Http_1xx)
+    })
+    it('should parse header match options', () => {
+        const [config, err] = parseConfig(`
+modules:
+  m:
+    http:
+      fail_if_header_matches:
+        - header: Set-Cookie
+          allow_missing: true
+          regexp: '.*'
+      fail_if_header_not_matches:
+        - header: Strict-Transport-Security
+          regexp: 'max-age=\\d+'
+`)
+        expect(err).to.equal(null)
+        const p = config!.modules['m']
+        expect(p.failIfHeaderMatches[0].header).to.equal('Set-Cookie')
+        expect(p.failIfHeaderMatches[0].allowMissing).to.equal(true)
+        expect(p.failIfHeaderNotMatches[0].regexp.test('max-age=600')).to.equal(true)
+        expect(p.failIfHeaderNotMatches[0].allowMissing).to.equal(false)
+    })
+    it('should parse authentication options', () => {
+        const [config, err] = parseConfig(`
+modules:
+  basic:
+    http:
+      basic_auth:
+        username: user
+        password_env: PROBE_PASSWORD
+  bearer:
+    http:
+      bearer_token_env: PROBE_TOKEN
+`)
+        expect(err).to.equal(null)
+        expect(config!.modules['basic'].basicAuth).to.deep.equal({
+            username: 'user', password: undefined, password_env: 'PROBE_PASSWORD'
+        })
+        expect(config!.modules['bearer'].bearerTokenEnv).to.equal('PROBE_TOKEN')
+    })
+    it('should return error for both basic auth and bearer token', () => {
+        const doc = 'modules:\n  m:\n    http:\n      basic_auth: {username: u}\n      bearer_token: t\n'
+        const [config, err] = parseConfig(doc)
+        expect(config).to.equal(null)
+        expect(err!.message).to.contain('at most one of basic_auth and bearer_token')
+    })
+    it('should return error for header match without regexp', () => {
+        const doc = 'modules:\n  m:\n    http:\n      fail_if_header_matches:\n        - header: Server\n'
+        const [config, err] = parseConfig(doc)
+        expect(config).to.equal(null)
+        expect(err!.message).to.contain('both header and regexp are required')
+    })
+    it('should parse module timeout', () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    prober: http\n    timeout: 2s500ms\n')
+        expect(err).to.equal(null)
+        expect(config!.modules['m'].timeout).to.equal(2.5)
+    })
+    it('should return error for invalid timeout', () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    timeout: 5 seconds\n')
+        expect(config).to.equal(null)
+        expect(err!.message).to.contain('module "m": invalid timeout')
+    })
+    it('should return error for unknown keys', () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    http:\n      foo: bar\n')
+        expect(config).to.equal(null)
+        expect(err!.message).to.equal('module "m": unknown http option: foo')
+    })
+    it('should return error for invalid regexp', () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    http:\n      fail_if_matches_regexp: ["("]\n')
+        expect(config).to.equal(null)
+        expect(err!.message).to.contain('module "m": invalid http option fail_if_matches_regexp')
+    })
+    it('should return error for body in GET request', () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    http:\n      body: foo\n')
+        expect(config).to.equal(null)
+        expect(err!.message).to.equal('module "m": body is not allowed for GET or HEAD request')
+    })
+    it('should return error for unsupported prober', () => {
+        const [config, err] = parseConfig('modules:\n  m:\n    prober: tcp\n')
+        expect(config).to.equal(null)
+        expect(err!.message).to.equal('module "m": unsupported prober: tcp')
+    })
+    it('should return error for missing modules', () => {
+        const [config, err] = parseConfig('foo: bar')
+        expect(config).to.equal(null)
+        expect(err!.message).to.contain('"modules"')
+    })
+    it('should parse JSON options', () => {
+        const [config, err] = parseConfig(`
+modules:
+  m:
+    http:
+      json_assertions:
+        - {path: status, equals: ok}
+        - path: db.lag
+          lt: 10
+      json_gauges: [db.lag]
+`)
+        expect(err).to.equal(null)
+        const p = config!.modules['m'] as HttpProbe
+        expect(p.jsonAssertions).to.deep.equal([{path: 'status', equals: 'ok'}, {path: 'db.lag', lt: 10}])
+        expect(p.jsonGauges).to.deep.equal(['db.lag'])
+    })
+    it('should return error for invalid JSON assertions', () => {
+        const errors = [
+            ['[{path: status}]', 'no check for path status, expected equals, exists, lt, lte, gt or gte'],
+            ['[{path: lag, lt: ten}]', 'lt of path lag must be a number but got: "ten"'],
+            ['[{path: "a..b", exists: true}]', 'invalid JSON path: a..b'],
+            ['[{path: a, matches: b}]', 'unknown keys: matches'],
+        ]
+        for (let [assertions, message] of errors) {
+            const [config, err] = parseConfig(`modules:\n  m:\n    http:\n      json_assertions: ${assertions}\n`)
+            expect(config).to.equal(null)
+            expect(err!.message).to.equal(`module "m": invalid http option json_assertions: ${message}`)
+        }
+    })
+    it('should parse scenario modules', () => {
+        const [config, err] = parseConfig(`
+modules:
+  login:
+    prober: http
+    timeout: 5s
+    scenario:
+      - name: login
+        url: /login
+        http:
+          method: POST
+          body: '{"user": "prober"}'
+        capture:
+          token: {json: data.token}
+          session: {header: Set-Cookie, regexp: 'session=([^;]+)'}
+      - name: profile
+        url: /profile?session=\${session}
+        http:
+          headers:
+            Authorization: 'Bearer \${token}'
+          fail_if_not_matches_regexp: ['"name"']
+`)
+        expect(err).to.equal(null)
+        const scenario = config!.modules['login'] as HttpScenario
+        expect(scenario).to.be.instanceOf(HttpScenario)
+        expect(scenario.timeout).to.equal(5)
+        expect(scenario.steps.map(s => s.name)).to.deep.equal(['login', 'profile'])
+        expect(scenario.steps[0].probe.method).to.equal('POST')
+        expect(scenario.steps[0].captures.map(c => c.name)).to.deep.equal(['token', 'session'])
+        expect(scenario.steps[0].captures[1].regexp!.source).to.equal('session=([^;]+)')
+        expect(scenario.steps[1].url).to.equal('/profile?session=${session}')
+        expect(scenario.steps[1].probe.headers).to.deep.equal({Authorization: 'Bearer ${token}'})
+    })
+    it('should return error for placeholders not captured by a previous step', () => {
+        const doc = 'modules:\n  m:\n    scenario:\n      - name: a\n        url: /a/${id}\n'
+        const [config, err] = parseConfig(doc)
+        expect(config).to.equal(null)
+        expect(err!.message).to.equal('module "m": step a: ${id} is not captured by a previous step')
+    })
+    it('should return error for invalid scenario', () => {
+        const errors = [
+            ['scenario: []', 'module "m": scenario must be a non-empty list of steps'],
+            ['scenario: [{url: /a}]', 'module "m": step #1: expected a string but got: undefined'],
+            ['scenario: [{name: a}, {name: a}]', 'module "m": step a: duplicate step name'],
+            ['scenario: [{name: a, capture: {x: {json: "a[b"}}}]', 'module "m": step a: invalid capture x: ' +
+            'invalid JSON path: a[b'],
+            ['scenario: [{name: a}]\n    http: {}', 'module "m": at most one of http and scenario can be set'],
+        ]
+        for (let [doc, message] of errors) {
+            const [config, err] = parseConfig(`modules:\n  m:\n    ${doc}\n`)
+            expect(config).to.equal(null)
+            expect(err!.message).to.equal(message)
+        }
+    })
+    it('should parse history windows', () => {
+        const [config, err] = parseConfig('modules: {}\nhistory:\n  windows: [30m, 3600, 168h]\n')
+        expect(err).to.equal(null)
+        expect(config!.history).to.deep.equal({
+            windows: [{name: '30m', seconds: 1800}, {name: '3600s', seconds: 3600}, {name: '168h', seconds: 604800}],
+        })
+        expect(parseConfig('modules: {}\n')[0]!.history).to.equal(undefined)
+        expect(parseConfig('modules: {}\nhistory: {}\n')[0]!.history!.windows.map(w => w.name))
+            .to.deep.equal(['5m', '1h', '24h'])
+    })
+    it('should return error for invalid history', () => {
+        const errors = [
+            ['history: 1h', 'history: must be a mapping with windows'],
+            ['history: {window: [1h]}', 'history: unknown keys: window'],
+            ['history: {windows: []}', 'history: windows must not be empty'],
+            ['history: {windows: [169h]}', 'history: window 169h is longer than the maximum of 168h'],
+        ]
+        for (let [doc, message] of errors) {
+            const [config, err] = parseConfig(`modules: {}\n${doc}\n`)
+            expect(config).to.equal(null)
+            expect(err!.message).to.equal(message)
+        }
+    })
+    it('should parse access config', () => {
+        const [config, err] = parseConfig(`
+modules: {}
+access:
+  callers:
+    prometheus: {token_env: PROMETHEUS_TOKEN}
+    dashboard: {signing_key: s3cret}
+  rate_limit:
+    target: {requests: 10, period: 1m}
+`)
+        expect(err).to.equal(null)
+        expect(config!.access).to.deep.equal({
+            callers: {prometheus: {token_env: 'PROMETHEUS_TOKEN'}, dashboard: {signing_key: 's3cret'}},
+            rate_limit: {target: {requests: 10, period: 60}},
+        })
+    })
+    it('should return error for invalid access config', () => {
+        const errors = [
+            ['access: {users: {}}', 'access: unknown keys: users'],
+            ['access: {callers: {}}', 'access: callers must be a non-empty mapping of callers by name'],
+            ['access: {callers: {a: {token: x, token_env: Y}}}',
+                'access: caller a: must have one of token, token_env, signing_key, signing_key_env'],
+            ['access: {rate_limit: {ip: {}}}', 'access: unknown rate_limit keys: ip'],
+            ['access: {rate_limit: {caller: {requests: 1.5, period: 1s}}}',
+                'access: rate_limit caller: requests must be a positive integer'],
+            ['access: {rate_limit: {target: {requests: 1}}}', 'access: rate_limit target: period: ' +
+            'expected a positive duration like 5s or 1m30s but got: undefined'],
+        ]
+        for (let [doc, message] of errors) {
+            const [config, err] = parseConfig(`modules: {}\n${doc}\n`)
+            expect(config).to.equal(null)
+            expect(err!.message).to.equal(message)
+        }
+    })
+})
+
+describe('ConfigLoader class', () => {
+    const doc = 'modules:\n  m:\n    prober: http\n'
+
+    it('should cache loaded config until it expires', async () => {
+        let now = 0
+        let loaded = 0
+        const loader = new ConfigLoader(async () => {
+            loaded++
+            return doc
+        }, 60, () => now)
+        await loader.load()
+        now = 59 * 1000
+        await loader.load()
+        expect(loaded).to.equal(1)
+        now = 60 * 1000
+        const config = await loader.load()
+        expect(loaded).to.equal(2)
+        expect(config.modules).to.have.key('m')
+    })
+    it('should keep previous config if it fails to reload', async () => {
+        let now = 0
+        let source = doc
+        const loader = new ConfigLoader(async () => source, 60, () => now)
+        await loader.load()
+        now = 60 * 1000
+        source = 'invalid'
+        const config = await loader.load()
+        expect(config.modules).to.have.key('m')
+    })
+    it('should throw error if the first load fails', () => {
+        const loader = new ConfigLoader(async () => 'modules: foo')
+        return expect(loader.load()).to.be.rejectedWith('"modules"')
+    })
+})
+
+describe('parseDuration function', () => {
+    it('should parse Prometheus durations', () => {
+        expect(parseDuration('5s')).to.equal(5)
+        expect(parseDuration('1m30s')).to.equal(90)
+        expect(parseDuration('1h')).to.equal(3600)
+        expect(parseDuration('250ms')).to.equal(0.25)
+    })
+    it('should accept number of seconds', () => {
+        expect(parseDuration(1.5)).to.equal(1.5)
+    })
+    it('should throw error for invalid or zero durations', () => {
+        expect(() => parseDuration('5')).to.throw('expected a positive duration')
+        expect(() => parseDuration('')).to.throw('expected a positive duration')
+        expect(() => parseDuration('0s')).to.throw('expected a positive duration')
+        expect(() => parseDuration(-1)).to.throw('expected a positive duration')
+    })
+})
+
+describe('probeTimeout function', () => {
+    it('should use module timeout by default', () => {
+        expect(probeTimeout(new HttpProbe({}), null)).to.equal(10)
+        expect(probeTimeout(new HttpProbe({timeout: 3}), 'invalid')).to.equal(3)
+    })
+    it('should be capped by the scrape timeout minus offset', () => {
+        expect(probeTimeout(new HttpProbe({timeout: 5}), '3')).to.equal(2.5)
+        expect(probeTimeout(new HttpProbe({timeout: 5}), '10')).to.equal(5)
+    })
+    it('should not apply offset to very short scrape timeout', () => {
+        expect(probeTimeout(new HttpProbe({timeout: 5}), '0.4')).to.equal(0.4)
+    })
+})
+
+describe('parseBatchParams function', () => {
+    it('should return all target params for the module of GET request', async () => {
+        const r = new Request('https://example.com?module=foo&target=a&target=b')
+        const [items, err] = await parseBatchParams(r)
+        expect(err).to.equal(null)
+        expect(items).to.deep.equal([{module: 'foo', target: 'a'}, {module: 'foo', target: 'b'}])
+    })
+    it('should return error if module param is missing', async () => {
+        const r = new Request('https://example.com?target=a&target=b')
+        const [items, err] = await parseBatchParams(r)
+        expect(items).to.equal(null)
+        expect(err!.message).to.contain('module parameter is missing')
+    })
+    it('should return module and targets in body of POST request', async () => {
+        const r = new Request('https://example.com', {
+            method: 'POST',
+            body: '[{"module": "foo", "target": "a"}, {"module": "bar", "target": "b"}]'
+        })
+        const [items, err] = await parseBatchParams(r)
+        expect(err).to.equal(null)
+        expect(items).to.deep.equal([{module: 'foo', target: 'a'}, {module: 'bar', target: 'b'}])
+    })
+    it('should return error for invalid body of POST request', async () => {
+        const r = new Request('https://example.com', {method: 'POST', body: '[{"module": "foo"}]'})
+        const [items, err] = await parseBatchParams(r)
+        expect(items).to.equal(null)
+        expect(err!.message).to.contain('body must be a list')
+    })
+})
+
+describe('mapConcurrently function', () => {
+    it('should return results in order of items', async () => {
+        const results = await mapConcurrently([3, 1, 2], 2, async n => {
+            await new Promise(resolve => setTimeout(resolve, n))
+            return n * 10
+        })
+        expect(results).to.deep.equal([30, 10, 20])
+    })
+    it('should not exceed the concurrency limit', async () => {
+        let running = 0
+        let maxRunning = 0
+        await mapConcurrently([1, 2, 3, 4, 5], 2, async () => {
+            running++
+            maxRunning = Math.max(maxRunning, running)
+            await new Promise(resolve => setTimeout(resolve, 1))
+            running--
+        })
+        expect(maxRunning).to.equal(2)
+    })
+})
+
+describe('labelMetrics and mergeMetrics functions', () => {
+    it('should render samples of all targets under a single metric', () => {
+        const metrics = (value: number) => [
+            {name: 'foo', help: 'Foo help', type: 'gauge' as 'gauge', samples: [{labels: {phase: 'x'}, value}]}
+        ]
+        const merged = mergeMetrics([
+            labelMetrics(metrics(1), {module: 'm', target: 'a'}),
+            labelMetrics(metrics(2), {module: 'm', target: 'b'}),
+        ])
+        expect(renderMetrics(merged)).to.equal('# HELP foo Foo help\n# TYPE foo gauge\n' +
+            'foo{module="m",target="a",phase="x"} 1\n' +
+            'foo{module="m",target="b",phase="x"} 2\n')
+    })
+})
+
+describe('redirectRequest function', () => {
+    it('should resolve relative location', () => {
+        const r = new Request('http://example.com/a/b')
+        expect(redirectRequest(r, 301, 'c', '').url).to.equal('http://example.com/a/c')
+        expect(redirectRequest(r, 301, '/c', '').url).to.equal('http://example.com/c')
+        expect(redirectRequest(r, 301, 'https://example.org/', '').url).to.equal('https://example.org/')
+    })
+    it('should change POST to GET without body for 301, 302 and 303', () => {
+        for (let status of [301, 302, 303]) {
+            const r = new Request('http://example.com', {method: 'POST', headers: {'content-type': 'text/plain'}})
+            const next = redirectRequest(r, status, '/next', 'foo')
+            expect(next.method).to.equal('GET')
+            expect(next.headers.get('content-type')).to.equal(null)
+        }
+    })
+    it('should keep method and body for 307 and 308', () => {
+        for (let status of [307, 308]) {
+            const r = new Request('http://example.com', {method: 'POST', headers: {'content-type': 'text/plain'}})
+            const next = redirectRequest(r, status, '/next', 'foo')
+            expect(next.method).to.equal('POST')
+            expect(next.headers.get('content-type')).to.equal('text/plain')
+        }
+    })
+    it('should only keep authorization header for the same origin', () => {
+        const r = new Request('http://example.com', {headers: {'authorization': 'Bearer foo'}})
+        expect(redirectRequest(r, 302, '/next', '').headers.get('authorization')).to.equal('Bearer foo')
+        expect(redirectRequest(r, 302, 'http://example.org/', '').headers.get('authorization')).to.equal(null)
+    })
+})
+
+describe('validateSsl function', () => {
+    it('should fail for SSL with fail_if_ssl', () => {
+        const p = new HttpProbe({fail_if_ssl: true})
+        expect(validateSsl(p, 'https://example.com')[0].passed).to.equal(false)
+        expect(validateSsl(p, 'http://example.com')[0].passed).to.equal(true)
+    })
+    it('should fail for non-SSL with fail_if_not_ssl', () => {
+        const p = new HttpProbe({fail_if_not_ssl: true})
+        expect(validateSsl(p, 'https://example.com')[0].passed).to.equal(true)
+        expect(validateSsl(p, 'http://example.com')[0].passed).to.equal(false)
+    })
+    it('should not check anything by default', () => {
+        expect(validateSsl(new HttpProbe({}), 'http://example.com')).to.deep.equal([])
+    })
+})
+
+describe('lookupJsonPath function', () => {
+    const doc = {data: {items: [{id: 1}, {id: 2}], token: 'abc'}}
+
+    it('should look up properties and array items', () => {
+        expect(lookupJsonPath(doc, 'data.token')).to.equal('abc')
+        expect(lookupJsonPath(doc, '$.data.items[1].id')).to.equal(2)
+        expect(lookupJsonPath(doc, '$')).to.equal(doc)
+        expect(lookupJsonPath([doc], '[0].data.token')).to.equal('abc')
+    })
+    it('should return undefined for missing values', () => {
+        expect(lookupJsonPath(doc, 'data.items[2].id')).to.equal(undefined)
+        expect(lookupJsonPath(doc, 'data.token.length')).to.equal(undefined)
+    })
+    it('should look up documents with keys named like the methods of Object', () => {
+        const shadowing = JSON.parse('{"hasOwnProperty": 1, "a": {"b": 2}}')
+        expect(lookupJsonPath(shadowing, 'a.b')).to.equal(2)
+        expect(lookupJsonPath(shadowing, 'hasOwnProperty')).to.equal(1)
+        expect(lookupJsonPath(shadowing, 'toString')).to.equal(undefined)
+    })
+    it('should throw for invalid path', () => {
+        expect(() => lookupJsonPath(doc, 'data..token')).to.throw('invalid JSON path: data..token')
+    })
+})
+
+describe('captureValues function', () => {
+    const resp = new Response('', {headers: {'set-cookie': 'session=s1; Path=/'}})
+    const capture = (name: string, json: string | null, regexp: RegExp | null, header: string | null) =>
+        ({name, json, regexp, header})
+
+    it('should capture values from JSON body, body and headers', () => {
+        const [values, err] = captureValues([
+            capture('token', 'data.token', null, null),
+            capture('user', 'data.user', null, null),
+            capture('csrf', null, /csrf=(\w+)/, null),
+            capture('session', null, /session=([^;]+)/, 'set-cookie'),
+        ], resp, '{"data": {"token": "abc", "user": {"id": 1}}, "note": "csrf=x1"}')
+        expect(err).to.equal(null)
+        expect(values).to.deep.equal({token: 'abc', user: '{"id":1}', csrf: 'x1', session: 's1'})
+    })
+    it('should return error if a value is not found', () => {
+        const [values, err] = captureValues([capture('token', null, /token=(\w+)/, null)], resp, 'none')
+        expect(values).to.equal(null)
+        expect(err!.message).to.equal('value of token is not found by regexp /token=(\\w+)/ in body')
+    })
+    it('should return error for invalid JSON body', () => {
+        const [values, err] = captureValues([capture('token', 'token', null, null)], resp, '<html>')
+        expect(values).to.equal(null)
+        expect(err!.message).to.contain('body is not valid JSON to capture token')
+    })
+})
+
+describe('buildStepRequest function', () => {
+    const scenario = new HttpScenario({
+        steps: [{
+            name: 'profile',
+            url: '/users/${user}/profile?token=${token}',
+            http: {method: 'POST', headers: {'Authorization': 'Bearer ${token}'}, body: '{"token": "${token}"}'},
+        }],
+    })
+
+    it('should resolve the URL against the target and replace placeholders', async () => {
+        const [r, err] = buildStepRequest(scenario.steps[0], 'https://example.com/Login', {user: 'Bob', token: 'a&b'})
+        expect(err).to.equal(null)
+        expect(r!.url).to.equal('https://example.com/users/Bob/profile?token=a%26b')
+        expect(r!.method).to.equal('POST')
+        expect(r!.headers.get('authorization')).to.equal('Bearer a&b')
+        expect(await r!.text()).to.equal('{"token": "a&b"}')
+    })
+    it('should use the target as URL by default', () => {
+        const [r] = buildStepRequest(new HttpScenario({steps: [{name: 'a'}]}).steps[0], 'https://example.com/A', {})
+        expect(r!.url).to.equal('https://example.com/A')
+    })
+})
+
+describe('MemoryResultStore class', () => {
+    const record = (time: number, success: boolean = true) => ({time, success, duration: 0.1, failed_due_to: []})
+
+    it('should return the records of each module and target since the given time', async () => {
+        const store = new MemoryResultStore(10, 10, 3600, () => 10000)
+        await store.add('m', 'https://a.com', record(1000))
+        await store.add('m', 'https://b.com', record(2000))
+        await store.add('m', 'https://a.com', record(3000, false))
+        const series = await store.query(1500)
+        expect(series.map(s => [s.target, s.records.map(r => r.time)])).to.deep.equal([
+            ['https://b.com', [2000]],
+            ['https://a.com', [3000]],
+        ])
+    })
+    it('should drop old and excess records', async () => {
+        let now = 0
+        const store = new MemoryResultStore(2, 10, 10, () => now)
+        for (let time of [0, 1000, 2000]) {
+            await store.add('m', 't', record(time))
+        }
+        expect((await store.query(0))[0].records.map(r => r.time)).to.deep.equal([1000, 2000])
+        now = 11500
+        expect((await store.query(0))[0].records.map(r => r.time)).to.deep.equal([2000])
+        now = 20000
+        expect(await store.query(0)).to.deep.equal([])
+    })
+    it('should evict the least recently probed series', async () => {
+        const store = new MemoryResultStore(10, 2, 3600, () => 0)
+        await store.add('m', 'a', record(0))
+        await store.add('m', 'b', record(0))
+        await store.add('m', 'a', record(0))
+        await store.add('m', 'c', record(0))
+        expect((await store.query(0)).map(s => s.target)).to.deep.equal(['a', 'c'])
+    })
+})
+
+describe('summarize function', () => {
+    const windows = [{name: '1m', seconds: 60}, {name: '1h', seconds: 3600}]
+    const now = Date.parse('2018-06-01T12:00:00Z')
+    const records = [
+        {time: now - 600000, success: false, duration: 5, failed_due_to: ['timeout' as 'timeout']},
+        {time: now - 30000, success: true, duration: 0.2, failed_due_to: []},
+        {time: now - 20000, success: true, duration: 0.4, failed_due_to: []},
+    ]
+
+    it('should summarize the records of each window', () => {
+        const [summary] = summarize([{module: 'm', target: 't', records}], windows, now)
+        expect(summary.module).to.equal('m')
+        expect(summary.windows['1m']).to.deep.equal({
+            probes: 2,
+            covered_seconds: 30,
+            availability_percent: 100,
+            duration_seconds: {p50: 0.2, p90: 0.4, p99: 0.4},
+            last_failure: null,
+        })
+        expect(summary.windows['1h']).to.include({probes: 3, covered_seconds: 600})
+        expect(summary.windows['1h'].availability_percent).to.be.closeTo(66.67, 0.01)
+        expect(summary.windows['1h'].last_failure)
+            .to.deep.equal({time: '2018-06-01T11:50:00.000Z', failed_due_to: ['timeout']})
+    })
+    it('should not have availability nor durations for a window without probes', () => {
+        const [summary] = summarize([{module: 'm', target: 't', records: records.slice(0, 1)}], windows, now)
+        expect(summary.windows['1m']).to.deep.equal({
+            probes: 0,
+            covered_seconds: 0,
+            availability_percent: null,
+            duration_seconds: {p50: null, p90: null, p99: null},
+            last_failure: null,
+        })
+    })
+})
+
+describe('authenticate function', () => {
+    const access = {callers: {prometheus: {token_env: 'TOKEN'}, dashboard: {signing_key: 'key'}}}
+    const env = {TOKEN: 't0k3n'}
+    const base = 'https://worker.test/worker/http_prober?module=m&target=https%3A%2F%2Fa.com'
+
+    function sign(url: string, key: string = 'key'): string {
+        const signature = createHmac('sha256', key).update(signedMessage(new URL(url))).digest('hex')
+        return `${url}&signature=${signature}`
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + 60
+
+    it('should allow anyone without callers', async () => {
+        const r = new Request(base, {headers: {'cf-connecting-ip': '192.0.2.1'}})
+        expect(await authenticate(r, undefined, env)).to.deep.equal(['192.0.2.1', null])
+        expect(await authenticate(new Request(base), {}, env)).to.deep.equal(['anonymous', null])
+    })
+    it('should authenticate callers by bearer token', async () => {
+        const r = new Request(base, {headers: {authorization: 'Bearer t0k3n'}})
+        expect(await authenticate(r, access, env)).to.deep.equal(['prometheus', null])
+
+        const [caller, err] = await authenticate(new Request(base, {headers: {authorization: 'Bearer t0k3'}}),
+            access, env)
+        expect(caller).to.equal(null)
+        expect(err!.message).to.equal('invalid bearer token')
+        const [, missing] = await authenticate(new Request(base), access, env)
+        expect(missing!.message).to.equal('a bearer token or a signed query is required')
+    })
+    it('should authenticate callers by signed query', async () => {
+        const url = sign(`${base}&caller=dashboard&expires=${expires}`)
+        expect(await authenticate(new Request(url), access, env)).to.deep.equal(['dashboard', null])
+    })
+    it('should return error for invalid signed query', async () => {
+        const errors = [
+            [sign(`${base}&caller=dashboard&expires=${expires}`, 'other'), 'invalid signature'],
+            [sign(`${base}&caller=dashboard&expires=${expires}`).replace('module=m', 'module=n'), 'invalid signature'],
+            [sign(`${base}&caller=dashboard&expires=${expires - 120}`), 'signed query is expired'],
+            [sign(`${base}&caller=dashboard`), 'signed query is expired'],
+            [sign(`${base}&caller=prometheus&expires=${expires}`), 'unknown caller of signed query: prometheus'],
+        ]
+        for (let [url, message] of errors) {
+            const [caller, err] = await authenticate(new Request(url), access, env)
+            expect(caller).to.equal(null)
+            expect(err!.message).to.equal(message)
+        }
+        const post = new Request(sign(`${base}&caller=dashboard&expires=${expires}`), {method: 'POST', body: '[]'})
+        const [, err] = await authenticate(post, access, env)
+        expect(err!.message).to.equal('signed queries are not allowed for POST requests')
+    })
+    it('should sign the query as it is encoded without the signature', () => {
+        const url = new URL('https://worker.test/p?target=a%20b&signature=ab&debug=true')
+        expect(signedMessage(url)).to.equal('/p?target=a%20b&debug=true')
+    })
+})
+
+describe('RateLimiter class', () => {
+    it('should limit the requests of each key', () => {
+        let now = 0
+        const limiter = new RateLimiter({requests: 2, period: 10}, 100, () => now)
+        expect(limiter.take(['a'])).to.equal(0)
+        expect(limiter.take(['a'])).to.equal(0)
+        expect(limiter.take(['a'])).to.equal(5)
+        expect(limiter.take(['b'])).to.equal(0)
+        now = 5000
+        expect(limiter.take(['a'])).to.equal(0)
+        expect(limiter.take(['a'])).to.equal(5)
+    })
+    it('should take the requests of all keys only if none exceeds the limit', () => {
+        const limiter = new RateLimiter({requests: 2, period: 10}, 100, () => 0)
+        expect(limiter.take(['a', 'a'])).to.equal(0)
+        expect(limiter.take(['b', 'a'])).to.equal(5)
+        expect(limiter.take(['b', 'b'])).to.equal(0)
+        expect(limiter.take(['c', 'c', 'c'])).to.equal(10)
+    })
+    it('should forget the least recently used keys', () => {
+        const limiter = new RateLimiter({requests: 1, period: 10}, 2, () => 0)
+        limiter.take(['a'])
+        limiter.take(['b'])
+        limiter.take(['c'])
+        expect(limiter.take(['a'])).to.equal(0)
+        expect(limiter.take(['c'])).to.equal(10)
+    })
+})
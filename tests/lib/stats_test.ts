@@ -0,0 +1,16 @@
+import 'mocha'
+import * as chai from 'chai'
+import {percentile} from '../../src/lib/stats'
+
+const expect = chai.expect
+
+describe('percentile function', () => {
+    it('should return percentiles of the samples', () => {
+        const samples = [5, 1, 4, 2, 3]
+        expect(percentile(samples, 50)).to.equal(3)
+        expect(percentile(samples, 90)).to.equal(5)
+        expect(percentile(samples, 0)).to.equal(1)
+        expect(percentile(samples, 50, 10)).to.equal(null)
+        expect(percentile([], 50)).to.equal(null)
+    })
+})
@@ -0,0 +1,27 @@
+import 'mocha'
+import * as chai from 'chai'
+import {byteLength, truncate} from '../../src/lib/text'
+
+const expect = chai.expect
+
+describe('byteLength function', () => {
+    it('should count ASCII chars as single byte', () => {
+        expect(byteLength('')).to.equal(0)
+        expect(byteLength('hello')).to.equal(5)
+    })
+    it('should count multi-byte chars as encoded in UTF-8', () => {
+        expect(byteLength('é')).to.equal(2)
+        expect(byteLength('€')).to.equal(3)
+        expect(byteLength('😀')).to.equal(4)
+    })
+})
+
+describe('truncate function', () => {
+    it('should cut at a size in bytes without splitting a multi-byte char', () => {
+        expect(truncate('hello', 3)).to.equal('hel')
+        expect(truncate('hello', 10)).to.equal('hello')
+        expect(truncate('a€b', 3)).to.equal('a')
+        expect(truncate('a€b', 4)).to.equal('a€')
+        expect(truncate('😀😀', 7)).to.equal('😀')
+    })
+})
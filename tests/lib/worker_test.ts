@@ -0,0 +1,98 @@
+import 'mocha'
+import * as chai from 'chai'
+import {Headers, Request, Response} from 'whatwg-fetch'
+import {URL} from 'url'
+import {
+    cancelTimer,
+    discardBody,
+    errorResponse,
+    isForwardedHeader,
+    matchPath,
+    Router,
+    startTimer,
+} from '../../src/lib/worker'
+
+const expect = chai.expect
+
+declare var global: object
+Object.assign(global, {Request, Response, Headers, URL})
+
+describe('errorResponse function', () => {
+    it('should return the error message with the status', async () => {
+        const resp = errorResponse(new Error('oops'), 502)
+        expect(resp.status).to.equal(502)
+        expect(resp.statusText).to.equal('Bad Gateway')
+        expect(await resp.text()).to.equal('error: oops\n')
+        expect(errorResponse('invalid').status).to.equal(400)
+    })
+})
+
+describe('discardBody function', () => {
+    it('should cancel the body stream, ignoring its failure', async () => {
+        let cancelled = false
+        const body = {cancel: () => {
+            cancelled = true
+            return Promise.reject(new TypeError('stream is errored'))
+        }}
+        discardBody({body} as {} as Response)
+        await new Promise(resolve => setImmediate(resolve))
+        expect(cancelled).to.equal(true)
+    })
+})
+
+describe('isForwardedHeader function', () => {
+    it('should not forward connection headers and headers added by Cloudflare', () => {
+        expect(isForwardedHeader('Accept')).to.equal(true)
+        expect(isForwardedHeader('Host')).to.equal(false)
+        expect(isForwardedHeader('X-Forwarded-For')).to.equal(false)
+        expect(isForwardedHeader('CF-Connecting-IP')).to.equal(false)
+    })
+})
+
+describe('startTimer function', () => {
+    it('should call the callback unless the timer is cancelled', async () => {
+        const fired: Array<string> = []
+        startTimer(() => fired.push('a'), 1)
+        cancelTimer(startTimer(() => fired.push('b'), 1))
+        cancelTimer(undefined)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        expect(fired).to.deep.equal(['a'])
+    })
+})
+
+describe('matchPath function', () => {
+    it('should match segment and rest params', () => {
+        expect(matchPath('/users/:id', '/users/42')).to.deep.equal({id: '42'})
+        expect(matchPath('/users/:id', '/users/42/posts')).to.equal(null)
+        expect(matchPath('/proxy/*target', '/proxy/https://github.com/a'))
+            .to.deep.equal({target: 'https://github.com/a'})
+    })
+    it('should match any prefix with a bare wildcard', () => {
+        expect(matchPath('*/config', '/worker/prober/config')).to.deep.equal({})
+        expect(matchPath('*/config', '/worker/prober/configs')).to.equal(null)
+    })
+    it('should match special characters literally', () => {
+        expect(matchPath('/a.b/:c', '/a.b/d')).to.deep.equal({c: 'd'})
+        expect(matchPath('/a.b/:c', '/aXb/d')).to.equal(null)
+    })
+})
+
+describe('Router class', () => {
+    const router = new Router<string>()
+        .get('/items/:id', (r, params, context) => new Response(`${context} ${params.id}`))
+        .post('/items', () => new Response('created', {status: 201}))
+
+    it('should call the handler of the first matched route with params and context', async () => {
+        const resp = await router.handle(new Request('https://example.com/items/1'), 'item')
+        expect(await resp.text()).to.equal('item 1')
+        const created = await router.handle(new Request('https://example.com/items', {method: 'POST'}), 'item')
+        expect(created.status).to.equal(201)
+    })
+    it('should return 405 for other methods of a matched path', async () => {
+        const resp = await router.handle(new Request('https://example.com/items/1', {method: 'DELETE'}), '')
+        expect(resp.status).to.equal(405)
+    })
+    it('should return 404 for other paths', async () => {
+        expect(await router.handle(new Request('https://example.com/other'), '')).to.have.property('status', 404)
+    })
+})
@@ -0,0 +1,49 @@
+import 'mocha'
+import * as chai from 'chai'
+import {parseDocument} from '../../src/lib/yaml'
+
+const expect = chai.expect
+
+describe('parseDocument function', () => {
+    it('should parse JSON document', () => {
+        expect(parseDocument('{"a": [1, "b"]}')).to.deep.equal({a: [1, 'b']})
+    })
+    it('should parse YAML block mappings and sequences', () => {
+        const doc = `
+---
+# comment
+a:
+  b: 1
+  c: true   # trailing comment
+  d:
+    - x
+    - 'y z'
+  e:
+  - "q\\tr"
+  - k: v
+    l: 2.5
+f: null
+`
+        expect(parseDocument(doc)).to.deep.equal({
+            a: {b: 1, c: true, d: ['x', 'y z'], e: ['q\tr', {k: 'v', l: 2.5}]},
+            f: null,
+        })
+    })
+    it('should parse YAML flow collections', () => {
+        expect(parseDocument('a: [200, 204]\nb: {x: "1", y: [a, b]}\nc: []'))
+            .to.deep.equal({a: [200, 204], b: {x: '1', y: ['a', 'b']}, c: []})
+    })
+    it('should parse YAML scalars', () => {
+        expect(parseDocument('a: http://example.com/#foo\nb: \'it\'\'s\'\nc: "#1"\nd: 2xx\ne: ~'))
+            .to.deep.equal({a: 'http://example.com/#foo', b: 'it\'s', c: '#1', d: '2xx', e: null})
+    })
+    it('should parse YAML block scalars', () => {
+        const doc = 'a: |\n  {\n    "x": 1\n  }\nb: >-\n  folded\n  text\nc: 1\n'
+        expect(parseDocument(doc)).to.deep.equal({a: '{\n  "x": 1\n}\n', b: 'folded text', c: 1})
+    })
+    it('should throw error with line number for invalid YAML', () => {
+        expect(() => parseDocument('a:\n  b: 1\n    c: 2')).to.throw('line 3: unexpected indentation')
+        expect(() => parseDocument('a: 1\na: 2')).to.throw('line 2: duplicate key: a')
+        expect(() => parseDocument('a: "foo')).to.throw('line 1: unterminated quoted string')
+    })
+})
@@ -0,0 +1,401 @@
+import 'mocha'
+import * as chai from 'chai'
+import {Headers, Request, Response} from 'whatwg-fetch'
+import {URL} from 'url'
+import {
+    buildProxyRequest,
+    buildProxyResponse,
+    cacheKey,
+    cacheTtl,
+    ChunkRewriter,
+    fetchTarget,
+    isAllowedHost,
+    lastCssBoundary,
+    lastHtmlBoundary,
+    MemoryCache,
+    parseTargetUrl,
+    ProxyCache,
+    rewriteCss,
+    rewriteHtml,
+    rewriteResponseHeaders,
+    rewriteSetCookie,
+    rewriteUrl,
+} from '../src/proxy'
+
+const expect = chai.expect
+
+declare var global: object
+Object.assign(global, {Request, Response, Headers, URL})
+
+describe('parseTargetUrl function', () => {
+    it('should return target URL from the path', () => {
+        const r = new Request('https://example.com/worker/proxy/github.com/lebinh')
+        expect(parseTargetUrl(r)).to.equal('https://github.com/lebinh')
+    })
+    it('should keep the scheme of target URL if specified', () => {
+        const r = new Request('https://example.com/worker/proxy/http%3A%2F%2Fgithub.com%2Flebinh')
+        expect(parseTargetUrl(r)).to.equal('http://github.com/lebinh')
+    })
+    it('should forward the query string', () => {
+        const r = new Request('https://example.com/worker/proxy/github.com/lebinh?tab=repositories')
+        expect(parseTargetUrl(r)).to.equal('https://github.com/lebinh?tab=repositories')
+    })
+    it('should return null for other paths', () => {
+        const r = new Request('https://example.com/worker/other/github.com')
+        expect(parseTargetUrl(r)).to.equal(null)
+    })
+})
+
+describe('isAllowedHost function', () => {
+    it('should allow hosts equal to a string', () => {
+        expect(isAllowedHost('github.com', ['github.com'])).to.equal(true)
+        expect(isAllowedHost('GitHub.com', ['github.com'])).to.equal(true)
+        expect(isAllowedHost('api.github.com', ['github.com'])).to.equal(false)
+    })
+    it('should allow hosts matched by a regexp', () => {
+        expect(isAllowedHost('api.github.com', [/\.github\.com$/])).to.equal(true)
+        expect(isAllowedHost('github.com.evil.com', [/\.github\.com$/])).to.equal(false)
+    })
+    it('should not allow anything if allowed hosts is empty', () => {
+        expect(isAllowedHost('github.com', [])).to.equal(false)
+    })
+})
+
+describe('buildProxyRequest function', () => {
+    it('should forward method and headers', () => {
+        const r = new Request('https://example.com/worker/proxy/github.com', {
+            method: 'PUT',
+            headers: {'accept': 'text/html', 'x-foo': 'bar'}
+        })
+        const pr = buildProxyRequest(r, 'https://github.com', {})
+        expect(pr.url).to.equal('https://github.com')
+        expect(pr.method).to.equal('PUT')
+        expect(pr.headers.get('accept')).to.equal('text/html')
+        expect(pr.headers.get('x-foo')).to.equal('bar')
+    })
+    it('should not forward hop-by-hop and Cloudflare headers', () => {
+        const r = new Request('https://example.com/worker/proxy/github.com', {
+            headers: {'connection': 'keep-alive', 'cf-ray': 'abc', 'x-real-ip': '1.2.3.4', 'accept': '*/*'}
+        })
+        const pr = buildProxyRequest(r, 'https://github.com', {})
+        expect(pr.headers.get('connection')).to.equal(null)
+        expect(pr.headers.get('cf-ray')).to.equal(null)
+        expect(pr.headers.get('x-real-ip')).to.equal(null)
+        expect(pr.headers.get('accept')).to.equal('*/*')
+    })
+    it('should only forward selected headers if configured', () => {
+        const r = new Request('https://example.com/worker/proxy/github.com', {
+            headers: {'accept': '*/*', 'x-foo': 'bar'}
+        })
+        const pr = buildProxyRequest(r, 'https://github.com', {forward_headers: ['Accept']})
+        expect(pr.headers.get('accept')).to.equal('*/*')
+        expect(pr.headers.get('x-foo')).to.equal(null)
+    })
+    it('should apply request header rules', () => {
+        const r = new Request('https://example.com/worker/proxy/github.com', {
+            headers: {'cookie': 'session=1', 'user-agent': 'curl'}
+        })
+        const pr = buildProxyRequest(r, 'https://github.com', {
+            request_headers: {add: {'User-Agent': 'proxy'}, remove: ['Cookie']}
+        })
+        expect(pr.headers.get('cookie')).to.equal(null)
+        expect(pr.headers.get('user-agent')).to.equal('proxy')
+    })
+})
+
+describe('fetchTarget function', () => {
+    const config = {allowed_hosts: ['github.com', 'api.github.com']}
+    const redirects: { [url: string]: string } = {
+        'https://github.com/old': 'https://api.github.com/new',
+        'https://api.github.com/new': 'https://evil.com/',
+        'https://github.com/moved': '/new',
+    }
+    let requests: Array<string>
+
+    const fetcher = async (r: Request) => {
+        requests.push(`${r.method} ${r.url}`)
+        return r.url in redirects
+            ? new Response('', {status: 302, headers: {'location': redirects[r.url]}})
+            : new Response('ok')
+    }
+
+    beforeEach(() => {
+        requests = []
+    })
+
+    it('should follow redirects to the allowed hosts', async () => {
+        const resp = await fetchTarget(new Request('https://github.com/moved'), config, fetcher)
+        expect(resp.status).to.equal(200)
+        expect(requests).to.deep.equal(['GET https://github.com/moved', 'GET https://github.com/new'])
+    })
+    it('should return redirects to other hosts', async () => {
+        const resp = await fetchTarget(new Request('https://github.com/old'), config, fetcher)
+        expect(resp.status).to.equal(302)
+        expect(resp.headers.get('location')).to.equal('https://evil.com/')
+        expect(requests).to.deep.equal(['GET https://github.com/old', 'GET https://api.github.com/new'])
+    })
+    it('should not follow redirects when rewriting', async () => {
+        const resp = await fetchTarget(new Request('https://github.com/moved'), {...config, rewrite: true}, fetcher)
+        expect(resp.status).to.equal(302)
+        expect(requests).to.deep.equal(['GET https://github.com/moved'])
+    })
+    it('should follow redirects of a request with a body with a GET', async () => {
+        const r = new Request('https://github.com/moved', {method: 'POST', body: 'a=1'})
+        const resp = await fetchTarget(r, config, fetcher)
+        expect(resp.status).to.equal(200)
+        expect(requests).to.deep.equal(['POST https://github.com/moved', 'GET https://github.com/new'])
+    })
+})
+
+describe('buildProxyResponse function', () => {
+    it('should keep status and apply response header rules', () => {
+        const resp = new Response('', {status: 404, headers: {'set-cookie': 'a=b', 'content-type': 'text/html'}})
+        const pr = buildProxyResponse(resp, {
+            response_headers: {add: {'X-Proxied-By': 'test'}, remove: ['set-cookie']}
+        }, 'https://github.com/')
+        expect(pr.status).to.equal(404)
+        expect(pr.headers.get('set-cookie')).to.equal(null)
+        expect(pr.headers.get('content-type')).to.equal('text/html')
+        expect(pr.headers.get('x-proxied-by')).to.equal('test')
+    })
+    it('should rewrite headers in rewrite mode', () => {
+        const resp = new Response('', {status: 302, headers: {'location': '/login', 'content-security-policy': 'x'}})
+        const pr = buildProxyResponse(resp, {allowed_hosts: ['github.com'], rewrite: true}, 'https://github.com/foo')
+        expect(pr.headers.get('location')).to.equal('/worker/proxy/https://github.com/login')
+        expect(pr.headers.get('content-security-policy')).to.equal(null)
+    })
+})
+
+describe('rewriteUrl function', () => {
+    const base = 'https://github.com/lebinh'
+    const allowed = ['github.com', 'avatars.githubusercontent.com']
+
+    it('should rewrite absolute URL to allowed host', () => {
+        expect(rewriteUrl('https://avatars.githubusercontent.com/u/1?v=4', base, allowed))
+            .to.equal('/worker/proxy/https://avatars.githubusercontent.com/u/1?v=4')
+    })
+    it('should rewrite protocol-relative and root-relative URLs', () => {
+        expect(rewriteUrl('//github.com/a', base, allowed)).to.equal('/worker/proxy/https://github.com/a')
+        expect(rewriteUrl('/a?b=1&amp;c=2', base, allowed)).to.equal('/worker/proxy/https://github.com/a?b=1&amp;c=2')
+    })
+    it('should not rewrite URL to other hosts', () => {
+        expect(rewriteUrl('https://example.com/', base, allowed)).to.equal('https://example.com/')
+    })
+    it('should not rewrite relative and non-HTTP URLs', () => {
+        for (let url of ['a/b', '#top', 'mailto:foo@example.com', 'data:image/png;base64,AAAA', 'javascript:void(0)']) {
+            expect(rewriteUrl(url, base, allowed)).to.equal(url)
+        }
+    })
+})
+
+describe('rewriteHtml function', () => {
+    const base = 'https://github.com/lebinh'
+    const allowed = ['github.com']
+
+    it('should rewrite URLs in attributes', () => {
+        const html = '<a href="/a">a</a><img src=\'https://github.com/b.png\'>' +
+            '<form action=/c><a href="https://example.com">'
+        expect(rewriteHtml(html, base, allowed)).to.equal(
+            '<a href="/worker/proxy/https://github.com/a">a</a>' +
+            '<img src=\'/worker/proxy/https://github.com/b.png\'>' +
+            '<form action=/worker/proxy/https://github.com/c>' +
+            '<a href="https://example.com">')
+    })
+    it('should rewrite all URLs of srcset', () => {
+        const html = '<img srcset="/a.png 1x, /b.png 2x">'
+        expect(rewriteHtml(html, base, allowed))
+            .to.equal('<img srcset="/worker/proxy/https://github.com/a.png 1x, ' +
+                '/worker/proxy/https://github.com/b.png 2x">')
+    })
+    it('should rewrite URLs in inline styles', () => {
+        const html = '<div style="background: url(/bg.png)">'
+        expect(rewriteHtml(html, base, allowed))
+            .to.equal('<div style="background: url(/worker/proxy/https://github.com/bg.png)">')
+    })
+})
+
+describe('rewriteCss function', () => {
+    it('should rewrite url() and @import', () => {
+        const css = '@import "/a.css"; @import url(\'/b.css\'); .x { background: url( "//github.com/c.png" ) }'
+        expect(rewriteCss(css, 'https://github.com/', ['github.com'])).to.equal(
+            '@import "/worker/proxy/https://github.com/a.css"; ' +
+            '@import url(\'/worker/proxy/https://github.com/b.css\'); ' +
+            '.x { background: url( "/worker/proxy/https://github.com/c.png" ) }')
+    })
+})
+
+describe('rewriteResponseHeaders function', () => {
+    it('should rewrite Location and Content-Location headers', () => {
+        const headers = new Headers({'location': 'https://github.com/a', 'content-location': 'b'})
+        rewriteResponseHeaders(headers, 'https://github.com/x/y', ['github.com'])
+        expect(headers.get('location')).to.equal('/worker/proxy/https://github.com/a')
+        expect(headers.get('content-location')).to.equal('/worker/proxy/https://github.com/x/b')
+    })
+    it('should keep malformed URL headers', () => {
+        const headers = new Headers({'location': 'https://[github.com/a', 'content-location': 'b'})
+        rewriteResponseHeaders(headers, 'https://github.com/x/y', ['github.com'])
+        expect(headers.get('location')).to.equal('https://[github.com/a')
+        expect(headers.get('content-location')).to.equal('/worker/proxy/https://github.com/x/b')
+    })
+    it('should remove CSP headers', () => {
+        const headers = new Headers({'content-security-policy': 'default-src github.com'})
+        rewriteResponseHeaders(headers, 'https://github.com/', ['github.com'])
+        expect(headers.get('content-security-policy')).to.equal(null)
+    })
+})
+
+describe('rewriteSetCookie function', () => {
+    it('should remove Domain and prefix Path', () => {
+        expect(rewriteSetCookie('id=1; Domain=.github.com; Path=/; Secure; HttpOnly', 'https://github.com/a'))
+            .to.equal('id=1; Path=/worker/proxy/https://github.com/; Secure; HttpOnly')
+    })
+})
+
+describe('ChunkRewriter class', () => {
+    it('should hold back text after the last boundary', () => {
+        const rewriter = new ChunkRewriter(text => text.replace(/href="\//g, 'href="/p/'), lastHtmlBoundary)
+        let output = rewriter.push('<p>a</p><a hr')
+        output += rewriter.push('ef="/foo">b</a> c')
+        output += rewriter.flush()
+        expect(output).to.equal('<p>a</p><a href="/p/foo">b</a> c')
+    })
+    it('should not hold back text longer than the limit', () => {
+        const rewriter = new ChunkRewriter(text => text, lastHtmlBoundary, 4)
+        expect(rewriter.push('<a>abcdef')).to.equal('<a>abcdef')
+        expect(rewriter.flush()).to.equal('')
+    })
+    it('should not cut HTML in an attribute value', () => {
+        const rewriter = new ChunkRewriter(text => rewriteHtml(text, 'https://github.com/', ['github.com']),
+            lastHtmlBoundary)
+        let output = rewriter.push('<p>a</p><a href="https://github.com/a?x=1&amp;')
+        output += rewriter.push('y=2" style="color: red;">b</a>')
+        output += rewriter.flush()
+        expect(output).to.equal('<p>a</p><a href="/worker/proxy/https://github.com/a?x=1&amp;y=2" ' +
+            'style="color: red;">b</a>')
+    })
+})
+
+describe('lastHtmlBoundary function', () => {
+    it('should return the last > closing a tag', () => {
+        expect(lastHtmlBoundary('<p>a</p><a title="x > y" href="/')).to.equal(7)
+        expect(lastHtmlBoundary('<p title=\'a>b\'>a > b')).to.equal(14)
+        expect(lastHtmlBoundary('<!-- don\'t --><a href="/')).to.equal(13)
+        expect(lastHtmlBoundary('a > b')).to.equal(-1)
+    })
+})
+
+describe('lastCssBoundary function', () => {
+    it('should return the last end of a rule or declaration', () => {
+        expect(lastCssBoundary('a { color: red; }\nb { background: url(')).to.equal(17)
+        expect(lastCssBoundary('a { b')).to.equal(-1)
+    })
+})
+
+describe('cacheKey function', () => {
+    it('should append values of vary headers to the URL', () => {
+        const headers = new Headers({'accept-encoding': 'gzip', 'accept': '*/*'})
+        expect(cacheKey('https://github.com/a?b=1', headers, ['Accept-Encoding', 'Accept-Language']).url)
+            .to.equal('https://github.com/a?b=1&__proxy_vary_accept-encoding=gzip')
+    })
+})
+
+describe('cacheTtl function', () => {
+    it('should use the first matched TTL of the host', () => {
+        const config = {ttls: [{host: 'api.github.com', ttl: 10}, {host: /github\.com$/, ttl: 60}], default_ttl: 5}
+        expect(cacheTtl('api.github.com', config)).to.equal(10)
+        expect(cacheTtl('gist.github.com', config)).to.equal(60)
+        expect(cacheTtl('example.com', config)).to.equal(5)
+        expect(cacheTtl('example.com', {})).to.equal(0)
+    })
+})
+
+describe('MemoryCache class', () => {
+    it('should expire entries by max-age', async () => {
+        let now = 0
+        const cache = new MemoryCache(() => now)
+        const key = new Request('https://github.com/')
+        await cache.put(key, new Response('', {headers: {'cache-control': 'max-age=10'}}))
+        expect(await cache.match(key)).to.not.equal(undefined)
+        now = 10000
+        expect(await cache.match(key)).to.equal(undefined)
+    })
+})
+
+describe('ProxyCache class', () => {
+    const targetUrl = 'https://github.com/lebinh'
+    let now: number
+    let calls: number
+    let tasks: Array<Promise<any>>
+    let cache: ProxyCache
+
+    const upstream = async () => {
+        calls++
+        return new Response('', {headers: {'x-version': String(calls), 'cache-control': 'public'}})
+    }
+    const fetch = async (method: string = 'GET', headers: Headers = new Headers()) => {
+        const resp = await cache.fetch(method, targetUrl, headers, upstream, p => tasks.push(p))
+        await Promise.all(tasks)
+        tasks = []
+        return resp
+    }
+
+    beforeEach(() => {
+        now = 0
+        calls = 0
+        tasks = []
+        cache = new ProxyCache(new MemoryCache(() => now), {default_ttl: 60, stale_while_revalidate: 30}, () => now)
+    })
+
+    it('should serve from the cache within the TTL', async () => {
+        const miss = await fetch()
+        expect(miss.headers.get('x-proxy-cache')).to.equal('MISS')
+        now = 59000
+        const hit = await fetch()
+        expect(hit.headers.get('x-proxy-cache')).to.equal('HIT')
+        expect(hit.headers.get('x-version')).to.equal('1')
+        expect(hit.headers.get('cache-control')).to.equal('public')
+        expect(hit.headers.get('age')).to.equal('59')
+        expect(calls).to.equal(1)
+    })
+    it('should serve stale response while revalidating in background', async () => {
+        await fetch()
+        now = 70000
+        const stale = await fetch()
+        expect(stale.headers.get('x-proxy-cache')).to.equal('STALE')
+        expect(stale.headers.get('x-version')).to.equal('1')
+        expect(calls).to.equal(2)
+        const hit = await fetch()
+        expect(hit.headers.get('x-proxy-cache')).to.equal('HIT')
+        expect(hit.headers.get('x-version')).to.equal('2')
+    })
+    it('should fetch again after the stale period', async () => {
+        await fetch()
+        now = 90000
+        const miss = await fetch()
+        expect(miss.headers.get('x-proxy-cache')).to.equal('MISS')
+        expect(miss.headers.get('x-version')).to.equal('2')
+    })
+    it('should bypass the cache for non-GET and authenticated requests', async () => {
+        await fetch()
+        const requests: Array<[string, object]> = [
+            ['POST', {}], ['GET', {'authorization': 'Bearer x'}], ['GET', {'cookie': 'a=b'}]
+        ]
+        for (let [method, headers] of requests) {
+            const resp = await fetch(method, new Headers(headers))
+            expect(resp.headers.get('x-proxy-cache')).to.equal('BYPASS')
+        }
+        expect(calls).to.equal(4)
+    })
+    it('should not cache private responses', async () => {
+        cache = new ProxyCache(new MemoryCache(() => now), {default_ttl: 60}, () => now)
+        const privateUpstream = async () => {
+            calls++
+            return new Response('', {headers: {'cache-control': 'private'}})
+        }
+        await cache.fetch('GET', targetUrl, new Headers(), privateUpstream, p => tasks.push(p))
+        await Promise.all(tasks)
+        const resp = await cache.fetch('GET', targetUrl, new Headers(), privateUpstream, p => tasks.push(p))
+        expect(resp.headers.get('x-proxy-cache')).to.equal('MISS')
+        expect(calls).to.equal(2)
+    })
+})
@@ -0,0 +1,269 @@
+import 'mocha'
+import * as chai from 'chai'
+import {Headers, Request, Response} from 'whatwg-fetch'
+import {URL} from 'url'
+import {
+    kvStatsStore,
+    OriginStats,
+    poolTargetUrl,
+    processRequest,
+    RaceConfig,
+    raceOrigins,
+    rejectionReason,
+    selectPool,
+} from '../src/race'
+
+const expect = chai.expect
+
+declare var global: object
+Object.assign(global, {Request, Response, Headers, URL})
+
+function delayed<T>(ms: number, value: () => T): Promise<T> {
+    return new Promise(resolve => setTimeout(resolve, ms)).then(value)
+}
+
+function ok(origin: string): Response {
+    return new Response(origin, {headers: {'x-origin': origin}})
+}
+
+describe('rejectionReason function', () => {
+    it('should accept status codes and classes', () => {
+        expect(rejectionReason(new Response('', {status: 200}), {})).to.equal(null)
+        expect(rejectionReason(new Response('', {status: 404}), {})).to.equal('status 404')
+        expect(rejectionReason(new Response('', {status: 404}), {status: ['2xx', 404]})).to.equal(null)
+        expect(rejectionReason(new Response('', {status: 301}), {status: ['2XX', 404]})).to.equal('status 301')
+    })
+    it('should require configured headers', () => {
+        const accept = {required_headers: ['X-Mirror-Version']}
+        expect(rejectionReason(new Response('', {headers: {'x-mirror-version': '1'}}), accept)).to.equal(null)
+        expect(rejectionReason(new Response(''), accept)).to.equal('missing header X-Mirror-Version')
+    })
+})
+
+describe('OriginStats class', () => {
+    let now: number
+    let stats: OriginStats
+    const targets = ['a', 'b', 'c'].map(o => ({origin: o, url: o}))
+
+    beforeEach(() => {
+        now = 0
+        stats = new OriginStats(null, 10, 60, () => now)
+    })
+
+    it('should keep a rolling window of outcomes', () => {
+        for (let i = 1; i <= 12; i++) {
+            stats.recordSuccess('a', i)
+        }
+        stats.recordFailure('a', 'status 503')
+        expect(stats.latencyPercentile('a', 0)).to.equal(3)
+        expect(stats.errorRate('a')).to.equal(0.1)
+        expect(stats.summary().a).to.deep.equal({
+            requests: 10,
+            error_rate: 0.1,
+            latency_ms: {p50: 7, p90: 11, p99: 12},
+            last_raced: null,
+            last_error: 'status 503',
+        })
+    })
+    it('should select all origins without stats', () => {
+        expect(stats.select(targets, {top_k: 1})).to.deep.equal(targets)
+    })
+    it('should select the fastest healthy origins, and the others to measure from time to time', () => {
+        stats.recordSuccess('a', 30)
+        stats.recordSuccess('b', 10)
+        stats.recordSuccess('c', 1)
+        stats.recordFailure('c', 'status 503')
+        stats.recordFailure('c', 'status 503')
+        stats.markRaced(['a', 'b', 'c'])
+        now = 59000
+        expect(stats.select(targets, {top_k: 1})).to.deep.equal([targets[1]])
+        now = 60000
+        expect(stats.select(targets, {top_k: 1})).to.deep.equal([
+            targets[1], {origin: 'a', url: 'a', measure: true}, {origin: 'c', url: 'c', measure: true}
+        ])
+    })
+    it('should load and save records with the store', async () => {
+        const kv: { [key: string]: string } = {stats: JSON.stringify({a: {latencies: [5], results: [true]}})}
+        const store = kvStatsStore({get: async key => kv[key], put: async (key, value) => { kv[key] = value }}, 'stats')
+        stats = new OriginStats(store, 10, 60, () => now)
+        await stats.load()
+        expect(stats.latencyPercentile('a', 50)).to.equal(5)
+        stats.recordSuccess('b', 1)
+        await stats.save()
+        expect(JSON.parse(kv.stats)).to.not.have.property('b')
+        now = 60000
+        await stats.save()
+        expect(JSON.parse(kv.stats)).to.have.property('b')
+    })
+})
+
+describe('raceOrigins function', () => {
+    let started: Array<string>
+    let aborted: Array<string>
+
+    const fetcher = (responses: { [origin: string]: () => Promise<Response> }) =>
+        (url: string, init: RequestInit) => {
+            started.push(url)
+            init.signal!.addEventListener('abort', () => aborted.push(url))
+            return responses[url]()
+        }
+    const race = (origins: Array<string>, config: RaceConfig, responses: { [origin: string]: () => Promise<Response> },
+                  stats: OriginStats = new OriginStats()) =>
+        raceOrigins(origins.map(o => ({origin: o, url: o})), config, {}, fetcher(responses), stats)
+
+    beforeEach(() => {
+        started = []
+        aborted = []
+    })
+
+    it('should return the first accepted response', async () => {
+        const resp = await race(['a', 'b', 'c'], {}, {
+            a: () => delayed(1, () => new Response('a', {status: 500})),
+            b: () => delayed(5, () => ok('b')),
+            c: () => delayed(10, () => ok('c')),
+        })
+        expect(resp.status).to.equal(200)
+        expect(resp.headers.get('x-origin')).to.equal('b')
+        expect(resp.headers.get('x-race-winner')).to.match(/^b; elapsed=\d+ms$/)
+        expect(aborted).to.deep.equal(['a', 'c'])
+    })
+    it('should ignore failed origins', async () => {
+        const resp = await race(['a', 'b'], {}, {
+            a: () => Promise.reject(new TypeError('Failed to fetch')),
+            b: () => delayed(5, () => ok('b')),
+        })
+        expect(resp.headers.get('x-origin')).to.equal('b')
+    })
+    it('should return 502 with the outcome of each origin if none is accepted', async () => {
+        const resp = await race(['a', 'b', 'c'], {accept: {required_headers: ['x-ok']}}, {
+            a: () => delayed(1, () => new Response('', {status: 503})),
+            b: () => delayed(5, () => Promise.reject(new TypeError('Failed to fetch'))),
+            c: () => delayed(10, () => new Response('')),
+        })
+        expect(resp.status).to.equal(502)
+        expect(await resp.text()).to.equal('No acceptable response from origins:\n' +
+            'a: status 503\nb: fetch error: TypeError: Failed to fetch\nc: missing header x-ok\n')
+    })
+    it('should only start other origins after the hedging delay', async () => {
+        const resp = await race(['a', 'b'], {hedge: {delay: 50}}, {
+            a: () => delayed(5, () => ok('a')),
+            b: () => delayed(5, () => ok('b')),
+        })
+        expect(resp.headers.get('x-origin')).to.equal('a')
+        expect(started).to.deep.equal(['a'])
+    })
+    it('should start the next origin after the delay or as soon as one fails', async () => {
+        const resp = await race(['a', 'b', 'c'], {hedge: {delay: 10}}, {
+            a: () => delayed(100, () => ok('a')),
+            b: () => delayed(1, () => new Response('', {status: 500})),
+            c: () => delayed(5, () => ok('c')),
+        })
+        expect(resp.headers.get('x-origin')).to.equal('c')
+        expect(started).to.deep.equal(['a', 'b', 'c'])
+        expect(aborted).to.deep.equal(['a', 'b'])
+    })
+    it('should use the percentile of latencies of the primary origin as delay', async () => {
+        const stats = new OriginStats()
+        for (let i = 0; i < 10; i++) {
+            stats.recordSuccess('a', 1)
+        }
+        const resp = await race(['a', 'b'], {hedge: {delay: 1000, delay_percentile: 90}}, {
+            a: () => delayed(100, () => ok('a')),
+            b: () => delayed(1, () => ok('b')),
+        }, stats)
+        expect(resp.headers.get('x-origin')).to.equal('b')
+        expect(stats.latencyPercentile('b', 50)).to.be.a('number')
+    })
+    it('should not abort measured origins and record their outcome', async () => {
+        const stats = new OriginStats()
+        stats.recordSuccess('a', 1)
+        stats.recordSuccess('b', 100)
+        const responses = {
+            a: () => delayed(1, () => ok('a')),
+            b: () => delayed(20, () => new Response('', {status: 503})),
+        }
+        const waiting: Array<Promise<any>> = []
+        const resp = await raceOrigins([{origin: 'a', url: 'a'}, {origin: 'b', url: 'b'}],
+            {adaptive: {top_k: 1, explore_interval: 0}}, {}, fetcher(responses), stats, p => waiting.push(p))
+        expect(resp.headers.get('x-origin')).to.equal('a')
+        expect(started).to.deep.equal(['b', 'a'])
+        await Promise.all(waiting)
+        expect(aborted).to.deep.equal([])
+        expect(stats.errorRate('b')).to.equal(0.5)
+    })
+    it('should return 400 without origins', async () => {
+        expect(await raceOrigins([], {})).to.have.property('status', 400)
+    })
+})
+
+describe('selectPool function', () => {
+    const pools = {
+        debian: {path_prefix: '/debian/', origins: ['a']},
+        mirror: {hosts: [/^mirror\./], origins: ['b']},
+    }
+
+    it('should select the first pool matching path and host', () => {
+        expect(selectPool(new URL('https://example.com/debian/ls'), pools)).to.equal(pools.debian)
+        expect(selectPool(new URL('https://mirror.example.com/debian/ls'), pools)).to.equal(pools.debian)
+        expect(selectPool(new URL('https://mirror.example.com/ubuntu/ls'), pools)).to.equal(pools.mirror)
+        expect(selectPool(new URL('https://example.com/ubuntu/ls'), pools)).to.equal(null)
+    })
+})
+
+describe('poolTargetUrl function', () => {
+    it('should append path after the prefix and query string to the origin', () => {
+        const url = new URL('https://example.com/debian/dists/stable?a=1')
+        expect(poolTargetUrl('https://deb.debian.org/debian/', url, {path_prefix: '/debian/', origins: []}))
+            .to.equal('https://deb.debian.org/debian/dists/stable?a=1')
+        expect(poolTargetUrl('https://mirror.example.com', url, {origins: []}))
+            .to.equal('https://mirror.example.com/debian/dists/stable?a=1')
+    })
+})
+
+describe('processRequest function', () => {
+    let requests: Array<[string, RequestInit]>
+    const fetcher = async (url: string, init: RequestInit) => {
+        requests.push([url, init])
+        return new Response('')
+    }
+    const config = {pools: {debian: {path_prefix: '/debian/', origins: ['https://a/debian', 'https://b/']}}}
+
+    beforeEach(() => {
+        requests = []
+    })
+
+    it('should forward the request to origins of the selected pool', async () => {
+        const r = new Request('https://example.com/debian/ls?a=1', {
+            method: 'POST',
+            headers: {'x-foo': 'bar', 'cf-ray': 'abc'},
+            body: 'body',
+        })
+        // whatwg-fetch only supports arrayBuffer() where FileReader is available
+        Object.assign(r, {arrayBuffer: async () => new TextEncoder().encode('body').buffer})
+        const resp = await processRequest(r, config, fetcher, new OriginStats())
+        expect(resp.headers.get('x-race-winner')).to.match(/^https:\/\/a\/debian; /)
+        expect(requests.map(([url]) => url)).to.deep.equal(['https://a/debian/ls?a=1', 'https://b/ls?a=1'])
+        const init = requests[0][1]
+        expect(init.method).to.equal('POST')
+        expect((init.headers as Headers).get('x-foo')).to.equal('bar')
+        expect((init.headers as Headers).get('cf-ray')).to.equal(null)
+        expect(new TextDecoder().decode(init.body as ArrayBuffer)).to.equal('body')
+    })
+    it('should return stats of origins', async () => {
+        const stats = new OriginStats()
+        await processRequest(new Request('https://example.com/debian/ls'), config, fetcher, stats)
+        // even with a pool matching any path
+        const catchAll = {pools: {...config.pools, all: {hosts: ['example.com'], origins: ['https://c/']}}}
+        const resp = await processRequest(new Request('https://example.com/race/stats'), catchAll, fetcher, stats)
+        const body = await resp.json()
+        expect(body.origins['https://a/debian']).to.have.property('requests', 1)
+        expect(requests).to.have.length(2)
+    })
+    it('should only race origins of query parameters if allowed', async () => {
+        const r = new Request('https://example.com/race?o=https://c/&o=https://d/')
+        expect(await processRequest(r, config, fetcher, new OriginStats())).to.have.property('status', 404)
+        expect(requests).to.deep.equal([])
+        await processRequest(r, {...config, allow_origin_params: true}, fetcher, new OriginStats())
+        expect(requests.map(([url]) => url)).to.deep.equal(['https://c/', 'https://d/'])
+    })
+})
@@ -0,0 +1,295 @@
+import 'mocha'
+import * as chai from 'chai'
+import * as chaiAsPromised from 'chai-as-promised'
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import {
+    authHeaders,
+    Binding,
+    build,
+    deploy,
+    injectConfig,
+    Manifest,
+    parseDeployConfig,
+    toLiteral,
+} from '../../scripts/build'
+import {natives} from '../e2e/harness'
+
+chai.use(chaiAsPromised)
+const expect = chai.expect
+
+const workers = ['echo', 'http_prober', 'proxy', 'race']
+
+function removeDirectory(dir: string) {
+    for (let name of fs.readdirSync(dir)) {
+        const file = path.join(dir, name)
+        fs.statSync(file).isDirectory() ? removeDirectory(file) : fs.unlinkSync(file)
+    }
+    fs.rmdirSync(dir)
+}
+
+describe('parseDeployConfig function', () => {
+    it('should parse environments', () => {
+        const config = parseDeployConfig(`
+environments:
+  staging:
+    account_id: abc
+    workers:
+      echo:
+      proxy:
+        script_name: proxy-staging
+        vars: {MODE: test}
+        config:
+          allowed_hosts: [example.com]
+`, workers)
+        expect(config.environments.staging.account_id).to.equal('abc')
+        expect(config.environments.staging.workers).to.deep.equal({
+            echo: {},
+            proxy: {script_name: 'proxy-staging', vars: {MODE: 'test'}, config: {allowed_hosts: ['example.com']}},
+        })
+    })
+    it('should throw for invalid config', () => {
+        const env = 'environments:\n  prod:\n    account_id: abc\n    workers:\n'
+        const errors = [
+            ['foo: bar', 'config must have an "environments" mapping'],
+            ['environments:\n  prod:\n    workers: {echo: {}}', 'environment prod: account_id must be a string'],
+            [env + '      cron: {}', 'environment prod: unknown worker cron, expected one of echo, http_prober, ' +
+            'proxy, race'],
+            [env + '      echo: {config: {}}', 'environment prod: worker echo: the worker has no config to embed'],
+            [env + '      echo: {route: x}', 'environment prod: worker echo: unknown keys: route'],
+            [env + '      echo: {script_name: Echo}', 'environment prod: worker echo: script_name must only have ' +
+            'lowercase letters, digits, _ and -'],
+            [env + '      echo: {vars: {A: 1}}', 'environment prod: worker echo: vars must be a mapping of strings ' +
+            'by binding name'],
+        ]
+        for (let [doc, message] of errors) {
+            expect(() => parseDeployConfig(doc, workers)).to.throw(message)
+        }
+    })
+})
+
+describe('toLiteral function', () => {
+    it('should write values as TypeScript literals with RegExps', () => {
+        expect(toLiteral({hosts: ['a.com', {regexp: '^b\\.com$'}], ttl: 60, rewrite: true, empty: null}))
+            .to.equal('{\n    "hosts": ["a.com", new RegExp("^b\\\\.com$")],\n    "ttl": 60,\n' +
+            '    "rewrite": true,\n    "empty": null,\n}')
+    })
+})
+
+describe('injectConfig function', () => {
+    const source = 'import {x} from "./x"\n\n/** doc */\nconst config: Config = {a: 1}\n\nfunction f() {\n' +
+        '    const config = 2\n}\n'
+
+    it('should replace the initializer of the top-level variable', () => {
+        const {source: injected, start, end} = injectConfig(source, 'config', '{b: 2}')
+        expect(injected).to.equal(source.replace('{a: 1}', '{b: 2}'))
+        expect(injected.slice(start, end)).to.equal('const config: Config = {b: 2}')
+    })
+    it('should throw if there is no such variable', () => {
+        expect(() => injectConfig(source, 'settings', '{}')).to.throw('no top-level variable settings')
+    })
+})
+
+describe('build function', function () {
+    // the workers are type-checked
+    this.timeout(120000)
+    let out: string
+
+    beforeEach(() => {
+        out = fs.mkdtempSync(path.join(os.tmpdir(), 'build-'))
+    })
+    afterEach(() => removeDirectory(out))
+
+    it('should build the workers with the config of the environment', () => {
+        const config = parseDeployConfig(`
+environments:
+  staging:
+    account_id: abc
+    workers:
+      proxy:
+        script_name: proxy-staging
+        kv_namespaces: {CACHE: ns1}
+        config:
+          allowed_hosts: [{regexp: '^staging\\.example\\.com$'}]
+      echo:
+`, workers)
+        const manifest = build(config, 'staging', out)
+        expect(manifest.workers.map(w => [w.worker, w.script_name, w.file]))
+            .to.deep.equal([['proxy', 'proxy-staging', 'proxy.js'], ['echo', 'echo', 'echo.js']])
+        expect(manifest.workers[0].bindings).to.deep.equal([{type: 'kv_namespace', name: 'CACHE', namespace_id: 'ns1'}])
+        expect(JSON.parse(fs.readFileSync(path.join(out, 'staging', 'manifest.json'), 'utf8'))).to.deep.equal(manifest)
+
+        const script = fs.readFileSync(path.join(out, 'staging', 'proxy.js'), 'utf8')
+        expect(script).to.contain('"allowed_hosts": [new RegExp("^staging\\\\.example\\\\.com$")],')
+        expect(script).to.not.contain('githubassets')
+        expect(manifest.workers[0].sha256).to.equal(crypto.createHash('sha256').update(script).digest('hex'))
+    })
+    it('should report the invalid configs of all workers', () => {
+        const config = parseDeployConfig(`
+environments:
+  prod:
+    account_id: abc
+    workers:
+      proxy:
+        config: {allowed_hosts: [example.com], rewrite: 'yes'}
+      http_prober:
+        config: {modules: {m: {timeout: never}}}
+`, workers)
+        expect(() => build(config, 'prod', out)).to.throw(/^invalid config of environment prod:\n/)
+            .with.property('message').that.contains('http_prober: config: module "m": invalid timeout')
+            .and.contains("proxy: config: Type '{ \"allowed_hosts\": string[]; \"rewrite\": string; }'")
+        expect(fs.readdirSync(out)).to.deep.equal([])
+    })
+    it('should throw for unknown environment', () => {
+        const config = {environments: {staging: {account_id: 'abc', workers: {echo: {}}}}}
+        expect(() => build(config, 'prod', out)).to.throw('unknown environment prod, expected one of staging')
+    })
+})
+
+/**
+ * Local mock of the Workers scripts API, which records the uploaded scripts.
+ */
+class MockScriptsApi {
+    private readonly server = http.createServer((req, res) => this.handle(req, res))
+    readonly uploads: Array<{ account: string, name: string, metadata: any, script: string }> = []
+    // scripts whose upload fails
+    readonly failing: Array<string> = []
+    url = ''
+
+    async start(): Promise<void> {
+        await new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve))
+        this.url = `http://127.0.0.1:${this.server.address().port}/client/v4`
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => this.server.close(resolve))
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const chunks: Array<Buffer> = []
+        req.on('data', (chunk: Buffer) => chunks.push(chunk))
+        req.on('end', async () => {
+            const match = /^\/client\/v4\/accounts\/([^/]+)\/workers\/scripts\/([^/]+)$/.exec(req.url || '')
+            const reply = (status: number, errors: Array<string>) => {
+                res.writeHead(status, {'content-type': 'application/json'})
+                res.end(JSON.stringify({
+                    success: errors.length === 0,
+                    errors: errors.map(message => ({code: 10000, message})),
+                    messages: [],
+                    result: null,
+                }))
+            }
+            if (req.method !== 'PUT' || match === null) {
+                return reply(404, ['not found'])
+            }
+            if (req.headers['authorization'] !== 'Bearer t0k3n') {
+                return reply(403, ['Authentication error'])
+            }
+            if (this.failing.includes(match[2])) {
+                return reply(400, ['Uncaught SyntaxError'])
+            }
+            const form = await new natives.Response(Buffer.concat(chunks), {
+                headers: {'content-type': req.headers['content-type'] as string},
+            }).formData()
+            this.uploads.push({
+                account: match[1],
+                name: match[2],
+                metadata: JSON.parse(await (form.get('metadata') as Blob as any).text()),
+                script: await (form.get('script') as Blob as any).text(),
+            })
+            reply(200, [])
+        })
+    }
+}
+
+describe('deploy function', () => {
+    const api = new MockScriptsApi()
+    const headers = {'Authorization': 'Bearer t0k3n'}
+    const logs: Array<string> = []
+    let dir: string
+
+    before(() => api.start())
+    after(() => api.close())
+
+    beforeEach(() => {
+        api.uploads.splice(0)
+        api.failing.splice(0)
+        logs.splice(0)
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-'))
+        const scripts: { [file: string]: string } = {'echo.js': 'echo()', 'proxy.js': 'proxy()'}
+        const bindings: Array<Binding> = [{type: 'plain_text', name: 'MODE', text: 'test'}]
+        const manifest: Manifest = {
+            environment: 'staging',
+            account_id: 'abc',
+            workers: Object.keys(scripts).map(file => {
+                fs.writeFileSync(path.join(dir, file), scripts[file])
+                return {
+                    worker: file.slice(0, -3),
+                    script_name: `${file.slice(0, -3)}-staging`,
+                    file,
+                    sha256: crypto.createHash('sha256').update(scripts[file]).digest('hex'),
+                    size: scripts[file].length,
+                    bindings,
+                }
+            }),
+        }
+        fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(manifest))
+    })
+    afterEach(() => removeDirectory(dir))
+
+    it('should upload the scripts of the manifest with their bindings', async () => {
+        await deploy(dir, api.url, headers, message => logs.push(message))
+        expect(api.uploads).to.deep.equal([
+            {
+                account: 'abc',
+                name: 'echo-staging',
+                metadata: {
+                    body_part: 'script',
+                    bindings: [{type: 'plain_text', name: 'MODE', text: 'test'}],
+                    keep_bindings: ['secret_text'],
+                },
+                script: 'echo()',
+            },
+            {
+                account: 'abc',
+                name: 'proxy-staging',
+                metadata: {
+                    body_part: 'script',
+                    bindings: [{type: 'plain_text', name: 'MODE', text: 'test'}],
+                    keep_bindings: ['secret_text'],
+                },
+                script: 'proxy()',
+            },
+        ])
+        expect(logs).to.deep.equal([
+            'Uploaded echo-staging (6 bytes) to account abc',
+            'Uploaded proxy-staging (7 bytes) to account abc',
+        ])
+    })
+    it('should stop at the first failed upload', async () => {
+        api.failing.push('echo-staging')
+        await expect(deploy(dir, api.url, headers, message => logs.push(message)))
+            .to.be.rejectedWith('failed to upload echo-staging: status 400 Uncaught SyntaxError')
+        expect(api.uploads).to.have.length(0)
+        await expect(deploy(dir, api.url, {'Authorization': 'Bearer wrong'}, message => logs.push(message)))
+            .to.be.rejectedWith('failed to upload echo-staging: status 403 Authentication error')
+    })
+    it('should not upload a script changed after the build', async () => {
+        fs.writeFileSync(path.join(dir, 'proxy.js'), 'evil()')
+        await expect(deploy(dir, api.url, headers, message => logs.push(message)))
+            .to.be.rejectedWith('proxy.js does not match the manifest, it was changed after the build')
+        expect(api.uploads).to.have.length(0)
+    })
+})
+
+describe('authHeaders function', () => {
+    it('should authenticate with an API token, or with an email and API key', () => {
+        expect(authHeaders({CF_API_TOKEN: 't', CF_AUTH_EMAIL: 'a@b.c'})).to.deep.equal({'Authorization': 'Bearer t'})
+        expect(authHeaders({CF_AUTH_EMAIL: 'a@b.c', CF_AUTH_KEY: 'k'}))
+            .to.deep.equal({'X-Auth-Email': 'a@b.c', 'X-Auth-Key': 'k'})
+        expect(() => authHeaders({CF_AUTH_EMAIL: 'a@b.c'})).to.throw('CF_API_TOKEN, or CF_AUTH_EMAIL and CF_AUTH_KEY')
+    })
+})